@@ -19,19 +19,22 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Textarea } from "@/components/ui/textarea";
+import { TagsField, parseTags } from "@/components/tags-field";
 import { detectMediaTypeFromUrl } from "@/lib/utils";
+import { checkMediaUrl } from "@/lib/media";
 
 interface AddMediaModalProps {
   isOpen: boolean;
   onClose: () => void;
   target?: "public" | "hidden";
+  boardId?: string; // board on screen; new items join it
 }
 
 export function AddMediaModal({
   isOpen,
   onClose,
   target = "public",
+  boardId,
 }: AddMediaModalProps) {
   const { addItem, addHiddenItem, allTags } = useMediaStore();
   const [url, setUrl] = useState("");
@@ -41,7 +44,6 @@ export function AddMediaModal({
   const [tagsInput, setTagsInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
-  const [suggestedTags, setSuggestedTags] = useState<string[]>([]);
 
   useEffect(() => {
     if (isOpen) {
@@ -69,36 +71,6 @@ export function AddMediaModal({
     }
   }, [url, typeTouched]);
 
-  const handleTagsInputChange = (value: string) => {
-    setTagsInput(value);
-
-    // Get the last tag being typed
-    const tags = value.split(",");
-    const lastTag = tags[tags.length - 1].trim().toLowerCase();
-
-    if (lastTag.length > 0) {
-      // Filter existing tags that match the current input
-      const matches = allTags.filter(
-        (tag) =>
-          tag.toLowerCase().startsWith(lastTag) &&
-          !tags
-            .slice(0, -1)
-            .map((t) => t.trim().toLowerCase())
-            .includes(tag.toLowerCase())
-      );
-      setSuggestedTags(matches);
-    } else {
-      setSuggestedTags([]);
-    }
-  };
-
-  const insertSuggestedTag = (tag: string) => {
-    const tags = tagsInput.split(",");
-    tags[tags.length - 1] = tag;
-    setTagsInput(tags.join(", ") + ", ");
-    setSuggestedTags([]);
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
@@ -108,15 +80,18 @@ export function AddMediaModal({
       return;
     }
 
+    const checkedUrl = checkMediaUrl(url);
+    if ("reason" in checkedUrl) {
+      setError(checkedUrl.reason);
+      return;
+    }
+
     if (!tagsInput.trim()) {
       setError("At least one tag is required");
       return;
     }
 
-    const tags = tagsInput
-      .split(",")
-      .map((tag) => tag.trim())
-      .filter(Boolean);
+    const tags = parseTags(tagsInput);
 
     if (tags.length === 0) {
       setError("At least one tag is required");
@@ -139,12 +114,14 @@ export function AddMediaModal({
         console.info("NSFW tag detected: routing to hidden vault");
       }
 
+      // The store normalizes the rest (name falls back to the hostname)
       const payload = {
         url,
-        name: name || new URL(url).hostname,
+        name,
         type,
         tags,
         thumbnail,
+        boardIds: boardId ? [boardId] : [],
       } as const;
 
       if (isHiddenTarget) {
@@ -158,7 +135,6 @@ export function AddMediaModal({
       setName("");
       setType("image");
       setTagsInput("");
-      setSuggestedTags([]);
       onClose();
     } catch (err) {
       setError("Failed to add media. Please try again.");
@@ -228,30 +204,13 @@ export function AddMediaModal({
 
           <div className="space-y-2">
             <Label htmlFor="tags">Tags * (comma-separated)</Label>
-            <div className="relative">
-              <Textarea
-                id="tags"
-                placeholder="design, inspiration, ui"
-                value={tagsInput}
-                onChange={(e) => handleTagsInputChange(e.target.value)}
-                disabled={isLoading}
-                rows={3}
-              />
-              {suggestedTags.length > 0 && (
-                <div className="absolute top-full left-0 right-0 mt-1 bg-card border border-border rounded-md shadow-lg z-10 max-h-40 overflow-y-auto">
-                  {suggestedTags.map((tag) => (
-                    <button
-                      key={tag}
-                      type="button"
-                      onClick={() => insertSuggestedTag(tag)}
-                      className="w-full text-left px-3 py-2 hover:bg-primary/10 transition-colors text-sm"
-                    >
-                      {tag}
-                    </button>
-                  ))}
-                </div>
-              )}
-            </div>
+            <TagsField
+              id="tags"
+              value={tagsInput}
+              onChange={setTagsInput}
+              allTags={allTags}
+              disabled={isLoading}
+            />
             <p className="text-xs text-muted-foreground">
               At least one tag is required{` `}
               {tagsInput.toLowerCase().includes("nsfw") && (
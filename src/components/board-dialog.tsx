@@ -0,0 +1,204 @@
+import type React from "react";
+
+import { useEffect, useState } from "react";
+import { type Board, useBoardStore } from "@/hooks/use-board-store";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { checkMediaUrl } from "@/lib/media";
+import { ArrowDown, ArrowUp, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface BoardDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  board?: Board | null; // edit this board; create a new one when absent
+  onCreated?: (board: Board) => void;
+}
+
+export function BoardDialog({
+  isOpen,
+  onClose,
+  board,
+  onCreated,
+}: BoardDialogProps) {
+  const { boards, createBoard, updateBoard, deleteBoard, moveBoard } =
+    useBoardStore();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [cover, setCover] = useState("");
+  const [error, setError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(board?.name ?? "");
+    setDescription(board?.description ?? "");
+    setCover(board?.cover ?? "");
+    setError("");
+  }, [isOpen, board]);
+
+  const index = board ? boards.findIndex((b) => b.id === board.id) : -1;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (!name.trim()) {
+      setError("Name is required");
+      return;
+    }
+    if (cover.trim()) {
+      const checked = checkMediaUrl(cover);
+      if ("reason" in checked) {
+        setError(`Cover: ${checked.reason}`);
+        return;
+      }
+    }
+
+    setIsSaving(true);
+    try {
+      const input = { name, description, cover };
+      if (board) {
+        await updateBoard(board.id, input);
+      } else {
+        onCreated?.(await createBoard(input));
+      }
+      onClose();
+    } catch (err) {
+      setError("Failed to save board. Please try again.");
+      console.error(err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!board) return;
+    try {
+      await deleteBoard(board.id);
+      toast.success("Board deleted", {
+        description: "Its items stay in your library",
+      });
+      onClose();
+    } catch {
+      toast.error("Error", { description: "Failed to delete board" });
+    }
+  };
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        if (!open) onClose();
+      }}
+    >
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{board ? "Edit Board" : "New Board"}</DialogTitle>
+          <DialogDescription>
+            Boards group items across tags; an item can be on several boards
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="board-name">Name *</Label>
+            <Input
+              id="board-name"
+              placeholder="Moodboard"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={isSaving}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="board-description">Description (optional)</Label>
+            <Textarea
+              id="board-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              disabled={isSaving}
+              rows={3}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="board-cover">Cover image URL (optional)</Label>
+            <Input
+              id="board-cover"
+              placeholder="Defaults to the first image on the board"
+              value={cover}
+              onChange={(e) => setCover(e.target.value)}
+              disabled={isSaving}
+            />
+          </div>
+
+          {board && (
+            <div className="flex items-center justify-between">
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="bg-transparent"
+                  disabled={index <= 0}
+                  onClick={() => moveBoard(board.id, -1)}
+                  title="Move earlier"
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="bg-transparent"
+                  disabled={index === -1 || index >= boards.length - 1}
+                  onClick={() => moveBoard(board.id, 1)}
+                  title="Move later"
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="text-destructive"
+                onClick={handleDelete}
+              >
+                <Trash2 className="mr-2 h-4 w-4" /> Delete board
+              </Button>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <div className="flex gap-2 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={isSaving}
+              className="flex-1 bg-transparent"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving} className="flex-1">
+              {isSaving ? "Saving..." : board ? "Save" : "Create Board"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
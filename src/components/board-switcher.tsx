@@ -0,0 +1,69 @@
+import { useState } from "react";
+import { useBoardStore } from "@/hooks/use-board-store";
+import { BoardDialog } from "@/components/board-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Check, ChevronDown, Library, Pencil, Plus } from "lucide-react";
+
+export function BoardSwitcher() {
+  const { boards, activeBoardId, setActiveBoard } = useBoardStore();
+  const [dialog, setDialog] = useState<"create" | "edit" | null>(null);
+  const active = boards.find((b) => b.id === activeBoardId) ?? null;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2 bg-transparent">
+            <Library className="h-4 w-4" />
+            <span className="max-w-40 truncate">
+              {active ? active.name : "All items"}
+            </span>
+            <ChevronDown className="h-4 w-4 opacity-60" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuItem onClick={() => setActiveBoard(null)}>
+            <Check className={`mr-2 h-4 w-4 ${active ? "opacity-0" : ""}`} />
+            All items
+          </DropdownMenuItem>
+          {boards.map((board) => (
+            <DropdownMenuItem
+              key={board.id}
+              onClick={() => setActiveBoard(board.id)}
+            >
+              <Check
+                className={`mr-2 h-4 w-4 ${
+                  board.id === activeBoardId ? "" : "opacity-0"
+                }`}
+              />
+              <span className="truncate">{board.name}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setDialog("create")}>
+            <Plus className="mr-2 h-4 w-4" /> New board
+          </DropdownMenuItem>
+          {active && (
+            <DropdownMenuItem onClick={() => setDialog("edit")}>
+              <Pencil className="mr-2 h-4 w-4" /> Edit “{active.name}”
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <BoardDialog
+        isOpen={dialog !== null}
+        onClose={() => setDialog(null)}
+        board={dialog === "edit" ? active : null}
+        onCreated={(board) => setActiveBoard(board.id)}
+      />
+    </>
+  );
+}
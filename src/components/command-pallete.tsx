@@ -1,5 +1,12 @@
-import { useEffect, useState } from "react";
-import type { MediaItem } from "@/hooks/use-media-store";
+import type React from "react";
+
+import { Fragment, useEffect, useMemo, useState } from "react";
+import { type MediaItem, useMediaStore } from "@/hooks/use-media-store";
+import { useLayoutStore } from "@/hooks/use-layout-store";
+import { useFuzzySearch } from "@/hooks/use-search-index";
+import { useVaultStore } from "@/hooks/use-vault-store";
+import { useViewStore } from "@/hooks/use-view-store";
+import { undoAction } from "@/hooks/use-history-store";
 import {
   CommandDialog,
   CommandEmpty,
@@ -9,6 +16,98 @@ import {
   CommandList,
 } from "@/components/ui/command";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { layouts } from "@/components/layout-switcher";
+import { PreviewModal } from "@/components/preview-modal";
+import { QueryHighlight } from "@/components/query-highlight";
+import { describeFilters } from "@/components/smart-views";
+import { toggleTheme } from "@/components/theme-provider";
+import { hostnameOf } from "@/lib/media";
+import {
+  IS_VALUES,
+  QUERY_FIELDS,
+  type QueryField,
+  formatToken,
+  matchesQuery,
+  parseQuery,
+} from "@/lib/query";
+import { matchRanges } from "@/lib/search-index";
+import { isEditableElement } from "@/lib/utils";
+import type { ViewFilters } from "@/lib/views";
+import {
+  ArrowLeft,
+  Bookmark,
+  CheckSquare,
+  Copy,
+  Download,
+  Eye,
+  EyeOff,
+  Home,
+  Lock,
+  LockOpen,
+  MoreHorizontal,
+  Plus,
+  Settings,
+  SunMoon,
+  Tag,
+  Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+
+// Rendering is the slow part with a large library, so cap the list
+const MAX_RESULTS = 200;
+
+interface PaletteAction {
+  id: string;
+  label: string;
+  keywords?: string; // extra words the action is found by
+  icon: React.ReactNode;
+  run: () => void;
+}
+
+// Every word of the search must appear in the label or keywords
+function matchesAction(action: PaletteAction, search: string): boolean {
+  const haystack = `${action.label} ${action.keywords ?? ""}`.toLowerCase();
+  return search
+    .toLowerCase()
+    .split(/\s+/)
+    .every((word) => haystack.includes(word));
+}
+
+function ActionItem({ action }: { action: PaletteAction }) {
+  return (
+    <CommandItem
+      value={`action ${action.id}`}
+      onSelect={action.run}
+      className="cursor-pointer"
+    >
+      {action.icon}
+      <span>{action.label}</span>
+    </CommandItem>
+  );
+}
+
+function Highlighted({ text, query }: { text: string; query: string }) {
+  const ranges = matchRanges(text, query);
+  if (ranges.length === 0) return <>{text}</>;
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  for (const [start, end] of ranges) {
+    if (start > last) {
+      parts.push(
+        <Fragment key={`text-${last}`}>{text.slice(last, start)}</Fragment>
+      );
+    }
+    parts.push(
+      <mark key={start} className="rounded-sm bg-primary/20 text-foreground">
+        {text.slice(start, end)}
+      </mark>
+    );
+    last = end;
+  }
+  parts.push(<Fragment key={`text-${last}`}>{text.slice(last)}</Fragment>);
+  return <>{parts}</>;
+}
 
 interface CommandPaletteProps {
   items: MediaItem[];
@@ -16,6 +115,12 @@ interface CommandPaletteProps {
   searchQuery: string;
   otherScopeCountLabel?: string;
   otherScopeCount?: number;
+  onApplyView?: (filters: ViewFilters) => void; // lists smart views when set
+  isHidden?: boolean; // the items come from the hidden vault
+  // Page actions; each is offered only when its handler is passed
+  onAddMedia?: () => void;
+  onToggleSelectMode?: () => void;
+  onFilterTag?: (tag: string) => void;
 }
 
 export function CommandPalette({
@@ -24,12 +129,29 @@ export function CommandPalette({
   searchQuery,
   otherScopeCount,
   otherScopeCountLabel,
+  onApplyView,
+  isHidden = false,
+  onAddMedia,
+  onToggleSelectMode,
+  onFilterTag,
 }: CommandPaletteProps) {
   const [open, setOpen] = useState(false);
+  const views = useViewStore((state) => state.views);
+  const { deleteItem, hideItem, unhideItem, loadAll } = useMediaStore();
+  const setLayout = useLayoutStore((state) => state.setLayout);
+  const { isUnlocked, lock } = useVaultStore();
+  const [highlighted, setHighlighted] = useState("");
+  const [previewItem, setPreviewItem] = useState<MediaItem | null>(null);
+  // The item whose secondary action menu is showing
+  const [actionItem, setActionItem] = useState<MediaItem | null>(null);
+  const [actionSearch, setActionSearch] = useState("");
 
   useEffect(() => {
     const down = (e: KeyboardEvent) => {
-      if ((e.key === "k" && (e.metaKey || e.ctrlKey)) || e.key === "/") {
+      // "/" is typed as-is in text fields (URLs, paths); Ctrl+K works anywhere
+      const slash =
+        e.key === "/" && !isEditableElement(e.target as Element | null);
+      if ((e.key === "k" && (e.metaKey || e.ctrlKey)) || slash) {
         e.preventDefault();
         setOpen((open) => !open);
       }
@@ -39,79 +161,483 @@ export function CommandPalette({
     return () => document.removeEventListener("keydown", down);
   }, []);
 
-  const filteredItems = items.filter(
-    (item) =>
-      item.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      item.tags.some((tag) =>
-        tag.toLowerCase().includes(searchQuery.toLowerCase())
-      )
+  useEffect(() => {
+    if (!open) {
+      setActionItem(null);
+      return;
+    }
+    // The gallery pages the library in; search needs all of it
+    loadAll().catch(() => {
+      toast.error("Error", { description: "Failed to load the library" });
+    });
+  }, [open]);
+
+  const [scrollLeft, setScrollLeft] = useState(0);
+  const query = useMemo(() => parseQuery(searchQuery), [searchQuery]);
+
+  // Plain words go through the fuzzy index and rank the results; fields,
+  // phrases and exclusions still filter exactly
+  const freeText = query
+    .filter((t) => !t.field && !t.quoted && !t.negated)
+    .map((t) => t.value)
+    .join(" ");
+  const exactTokens = query.filter((t) => t.field || t.quoted || t.negated);
+  const ranked = useFuzzySearch(freeText);
+  const filteredItems = useMemo(() => {
+    const matches = items.filter(
+      (item) =>
+        (!ranked || ranked.has(item.id)) && matchesQuery(item, exactTokens)
+    );
+    if (ranked) {
+      matches.sort((a, b) => (ranked.get(b.id) ?? 0) - (ranked.get(a.id) ?? 0));
+    }
+    return matches;
+  }, [items, ranked, query]);
+
+  const fieldValues = useMemo((): Partial<Record<QueryField, string[]>> => {
+    const unique = (values: string[]) => Array.from(new Set(values)).sort();
+    return {
+      tag: unique(items.flatMap((i) => i.tags)),
+      domain: unique(items.map((i) => hostnameOf(i.url)).filter(Boolean)),
+      format: unique(items.map((i) => i.format)),
+      type: ["image", "video", "other"],
+      is: [...IS_VALUES],
+    };
+  }, [items]);
+
+  const matchingViews = useMemo(() => {
+    if (!onApplyView) return [];
+    const text = searchQuery.trim().toLowerCase();
+    return views.filter((v) => !text || v.name.toLowerCase().includes(text));
+  }, [views, searchQuery, onApplyView]);
+
+  // Runs an action with the palette closed
+  const closeThen = (run: () => void) => () => {
+    setOpen(false);
+    run();
+  };
+
+  const go = (path: string) => {
+    window.location.href = path;
+  };
+
+  const actions: PaletteAction[] = [];
+  if (onAddMedia) {
+    actions.push({
+      id: "add",
+      label: "Add media",
+      keywords: "new upload url",
+      icon: <Plus />,
+      run: closeThen(onAddMedia),
+    });
+  }
+  if (onToggleSelectMode) {
+    actions.push({
+      id: "select",
+      label: "Toggle select mode",
+      keywords: "selection bulk multiple",
+      icon: <CheckSquare />,
+      run: closeThen(onToggleSelectMode),
+    });
+  }
+  for (const { type, label, icon } of layouts) {
+    actions.push({
+      id: `layout-${type}`,
+      label: `Switch to ${label} layout`,
+      keywords: "layout view",
+      icon,
+      run: closeThen(() => setLayout(type)),
+    });
+  }
+  actions.push({
+    id: "theme",
+    label: "Toggle theme",
+    keywords: "dark light mode",
+    icon: <SunMoon />,
+    run: closeThen(toggleTheme),
+  });
+  actions.push(
+    isHidden
+      ? {
+          id: "go-home",
+          label: "Go to Library",
+          keywords: "home public",
+          icon: <Home />,
+          run: closeThen(() => go("/")),
+        }
+      : {
+          id: "go-hidden",
+          label: "Go to Hidden Vault",
+          keywords: "private",
+          icon: <Lock />,
+          run: closeThen(() => go("/hidden")),
+        }
   );
+  actions.push({
+    id: "go-settings",
+    label: "Go to Settings",
+    keywords: "preferences",
+    icon: <Settings />,
+    run: closeThen(() => go("/settings")),
+  });
+  actions.push({
+    id: "export",
+    label: "Export backup",
+    keywords: "download json",
+    icon: <Download />,
+    run: closeThen(() => go("/settings?export")),
+  });
+  if (isUnlocked) {
+    actions.push({
+      id: "lock",
+      label: "Lock Hidden Vault",
+      keywords: "private",
+      icon: <Lock />,
+      run: closeThen(() => {
+        lock();
+        toast("Vault locked");
+      }),
+    });
+  }
+
+  const text = searchQuery.trim();
+  const matchingActions = actions.filter((a) => matchesAction(a, text));
+  // Tags only once something is typed; there can be hundreds
+  if (onFilterTag && text && !query.some((t) => t.field)) {
+    const tags = (fieldValues.tag ?? [])
+      .filter((tag) => tag.toLowerCase().includes(text.toLowerCase()))
+      .slice(0, 5);
+    for (const tag of tags) {
+      matchingActions.push({
+        id: `tag-${tag}`,
+        label: `Filter by tag: ${tag}`,
+        icon: <Tag />,
+        run: closeThen(() => {
+          onSearch("");
+          onFilterTag(tag);
+        }),
+      });
+    }
+  }
+
+  const openActions = (item: MediaItem) => {
+    setActionItem(item);
+    setActionSearch("");
+  };
+
+  const closeActions = () => {
+    if (actionItem) setHighlighted(actionItem.id);
+    setActionItem(null);
+  };
+
+  const itemActions = (item: MediaItem): PaletteAction[] => [
+    {
+      id: "open",
+      label: "Open preview",
+      icon: <Eye />,
+      run: closeThen(() => setPreviewItem(item)),
+    },
+    {
+      id: "copy",
+      label: "Copy URL",
+      keywords: "link clipboard",
+      icon: <Copy />,
+      run: closeThen(() => {
+        navigator.clipboard.writeText(item.url);
+        toast.success("Copied!", {
+          description: "Media URL copied to clipboard",
+        });
+      }),
+    },
+    {
+      id: "hide",
+      label: isHidden ? "Unhide" : "Hide",
+      keywords: isHidden ? "restore public" : "vault private",
+      icon: isHidden ? <LockOpen /> : <EyeOff />,
+      run: closeThen(async () => {
+        try {
+          if (isHidden) {
+            await unhideItem(item.id);
+            toast("Restored", {
+              description: "Media restored to your library",
+              action: undoAction(),
+            });
+          } else {
+            await hideItem(item.id);
+            toast("Hidden", {
+              description: "Media moved to hidden vault",
+              action: undoAction(),
+            });
+          }
+        } catch {
+          toast.error("Error", {
+            description: `Failed to ${isHidden ? "restore" : "hide"} media`,
+          });
+        }
+      }),
+    },
+    {
+      id: "delete",
+      label: "Move to Trash",
+      keywords: "delete remove",
+      icon: <Trash2 />,
+      run: closeThen(async () => {
+        try {
+          await deleteItem(item.id);
+          toast.success("Moved to Trash", {
+            description: item.name,
+            action: undoAction(),
+          });
+        } catch {
+          toast.error("Error", { description: "Failed to delete media" });
+        }
+      }),
+    },
+  ];
+
+  // Completions for the token being typed at the end of the query
+  const suggestions = useMemo(() => {
+    const current = query[query.length - 1];
+    if (!current || current.quoted || current.end !== searchQuery.length) {
+      return [];
+    }
+    const before = searchQuery.slice(0, current.start);
+    const partial = current.value.toLowerCase();
+
+    if (!current.field) {
+      if (!partial) return [];
+      return QUERY_FIELDS.filter((f) => f.startsWith(partial)).map((f) => {
+        const text = formatToken({ ...current, field: f, value: "" });
+        return { label: text, text: before + text };
+      });
+    }
+
+    return (fieldValues[current.field] ?? [])
+      .filter((v) => v.toLowerCase().startsWith(partial) && v !== current.value)
+      .slice(0, 8)
+      .map((value) => {
+        const text = formatToken({ ...current, value });
+        return { label: text, text: `${before}${text} ` };
+      });
+  }, [query, searchQuery, fieldValues]);
 
   return (
     <>
-      <CommandDialog open={open} onOpenChange={setOpen}>
-        <CommandInput
-          placeholder="Search media by name or tags... (Ctrl+K or /)"
-          value={searchQuery}
-          onValueChange={onSearch}
-        />
-        <CommandList>
-          <CommandEmpty>No media found.</CommandEmpty>
-          {otherScopeCount && otherScopeCount > 0 && (
-            <div className="px-3 py-2 text-xs text-muted-foreground">
-              {otherScopeCount} {otherScopeCountLabel || "in other vault"}
+      {/* Results are already filtered and sorted; keep cmdk from re-ranking */}
+      <CommandDialog
+        open={open}
+        onOpenChange={setOpen}
+        shouldFilter={false}
+        value={highlighted}
+        onValueChange={setHighlighted}
+      >
+        {actionItem ? (
+          <>
+            <div className="flex items-center gap-2 border-b px-3 py-2 text-xs text-muted-foreground">
+              <button
+                type="button"
+                onClick={closeActions}
+                className="flex items-center gap-1 rounded px-1 hover:text-foreground"
+              >
+                <ArrowLeft className="h-3 w-3" />
+                Back
+              </button>
+              <span className="truncate">{actionItem.name}</span>
             </div>
-          )}
-          <CommandGroup heading="Media">
-            {filteredItems.map((item) => (
-              <CommandItem
-                key={item.id}
-                onSelect={() => {
-                  setOpen(false);
+            <CommandInput
+              placeholder="Search actions... (Backspace to go back)"
+              value={actionSearch}
+              onValueChange={setActionSearch}
+              onKeyDown={(e) => {
+                if (e.key === "Backspace" && !actionSearch) {
+                  e.preventDefault();
+                  closeActions();
+                }
+              }}
+              autoFocus
+            />
+            <CommandList>
+              <CommandEmpty>No actions found.</CommandEmpty>
+              <CommandGroup heading="Actions">
+                {itemActions(actionItem)
+                  .filter((a) => matchesAction(a, actionSearch.trim()))
+                  .map((action) => (
+                    <ActionItem key={action.id} action={action} />
+                  ))}
+              </CommandGroup>
+            </CommandList>
+          </>
+        ) : (
+          <>
+            <div className="relative">
+              <CommandInput
+                placeholder="Search, or filter with tag: domain: is:pinned... (Ctrl+K or /)"
+                value={searchQuery}
+                onValueChange={onSearch}
+                onScroll={(e) => setScrollLeft(e.currentTarget.scrollLeft)}
+                onKeyDown={(e) => {
+                  // Ctrl/Cmd+Enter opens the highlighted item's actions
+                  if (e.key !== "Enter" || !(e.ctrlKey || e.metaKey)) return;
+                  const item = items.find((i) => i.id === highlighted);
+                  if (!item) return;
+                  e.preventDefault();
+                  openActions(item);
                 }}
-                className="cursor-pointer"
-              >
-                <div className="flex w-full items-center gap-3">
-                  {item.thumbnail && item.type === "image" ? (
-                    <img
-                      src={item.thumbnail || "/placeholder.svg"}
-                      alt={item.name}
-                      className="h-8 w-8 rounded object-cover"
-                      onError={(e) => {
-                        e.currentTarget.src =
-                          "/placeholder.svg?height=32&width=32";
+                className={
+                  searchQuery ? "text-transparent caret-foreground" : ""
+                }
+              />
+              {/* Highlighted copy of the query, lined up under the input text */}
+              {searchQuery && (
+                <div
+                  aria-hidden
+                  className="pointer-events-none absolute inset-y-0 left-9 right-3 flex items-center overflow-hidden whitespace-pre text-sm"
+                >
+                  <div style={{ transform: `translateX(${-scrollLeft}px)` }}>
+                    <QueryHighlight source={searchQuery} />
+                  </div>
+                </div>
+              )}
+            </div>
+            <CommandList>
+              <CommandEmpty>No media or actions found.</CommandEmpty>
+              {otherScopeCount && otherScopeCount > 0 && (
+                <div className="px-3 py-2 text-xs text-muted-foreground">
+                  {otherScopeCount} {otherScopeCountLabel || "in other vault"}
+                </div>
+              )}
+              {suggestions.length > 0 && (
+                <CommandGroup heading="Suggestions">
+                  {suggestions.map((s) => (
+                    <CommandItem
+                      key={s.text}
+                      value={`suggestion ${s.text}`}
+                      onSelect={() => onSearch(s.text)}
+                      className="cursor-pointer font-mono text-sm"
+                    >
+                      {s.label}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+              {matchingActions.length > 0 && (
+                <CommandGroup heading="Actions">
+                  {matchingActions.map((action) => (
+                    <ActionItem key={action.id} action={action} />
+                  ))}
+                </CommandGroup>
+              )}
+              {matchingViews.length > 0 && (
+                <CommandGroup heading="Smart Views">
+                  {matchingViews.map((view) => (
+                    <CommandItem
+                      key={view.id}
+                      value={`view ${view.id}`}
+                      onSelect={() => {
+                        onApplyView?.(view.filters);
+                        setOpen(false);
                       }}
-                    />
-                  ) : (
-                    <div className="flex h-8 w-8 items-center justify-center rounded bg-muted text-xs">
-                      {item.type === "video" ? "▶" : "📎"}
-                    </div>
-                  )}
-                  <div className="flex-1 min-w-0">
-                    <p className="truncate font-medium text-sm">{item.name}</p>
-                    <div className="flex gap-1 flex-wrap">
-                      {item.tags.slice(0, 2).map((tag) => (
-                        <Badge
-                          key={tag}
-                          variant="secondary"
-                          className="text-xs"
-                        >
-                          {tag}
-                        </Badge>
-                      ))}
-                      {item.tags.length > 2 && (
-                        <Badge variant="secondary" className="text-xs">
-                          +{item.tags.length - 2}
-                        </Badge>
+                      className="cursor-pointer"
+                    >
+                      <Bookmark className="h-4 w-4 text-muted-foreground" />
+                      <span className="truncate">{view.name}</span>
+                      <span className="ml-auto truncate text-xs text-muted-foreground">
+                        {describeFilters(view.filters)}
+                      </span>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+              <CommandGroup heading="Media">
+                {filteredItems.slice(0, MAX_RESULTS).map((item) => (
+                  <CommandItem
+                    key={item.id}
+                    value={item.id}
+                    onSelect={() => {
+                      setOpen(false);
+                      setPreviewItem(item);
+                    }}
+                    className="group cursor-pointer"
+                  >
+                    <div className="flex w-full items-center gap-3">
+                      {item.thumbnail && item.type === "image" ? (
+                        <img
+                          src={item.thumbnail || "/placeholder.svg"}
+                          alt={item.name}
+                          className="h-8 w-8 rounded object-cover"
+                          onError={(e) => {
+                            e.currentTarget.src =
+                              "/placeholder.svg?height=32&width=32";
+                          }}
+                        />
+                      ) : (
+                        <div className="flex h-8 w-8 items-center justify-center rounded bg-muted text-xs">
+                          {item.type === "video" ? "▶" : "📎"}
+                        </div>
                       )}
+                      <div className="flex-1 min-w-0">
+                        <p className="truncate font-medium text-sm">
+                          <Highlighted text={item.name} query={freeText} />
+                        </p>
+                        <p className="truncate text-xs text-muted-foreground">
+                          <Highlighted
+                            text={hostnameOf(item.url)}
+                            query={freeText}
+                          />
+                        </p>
+                        <div className="flex gap-1 flex-wrap">
+                          {item.tags.slice(0, 2).map((tag) => (
+                            <Badge
+                              key={tag}
+                              variant="secondary"
+                              className="text-xs"
+                            >
+                              {tag}
+                            </Badge>
+                          ))}
+                          {item.tags.length > 2 && (
+                            <Badge variant="secondary" className="text-xs">
+                              +{item.tags.length - 2}
+                            </Badge>
+                          )}
+                        </div>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 shrink-0 opacity-0 group-data-[selected=true]:opacity-100 focus-visible:opacity-100"
+                        title="Actions (Ctrl+Enter)"
+                        aria-label={`Actions for ${item.name}`}
+                        onPointerDown={(e) => e.stopPropagation()}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          openActions(item);
+                        }}
+                      >
+                        <MoreHorizontal />
+                      </Button>
                     </div>
+                  </CommandItem>
+                ))}
+                {filteredItems.length > MAX_RESULTS && (
+                  <div className="px-2 py-2 text-xs text-muted-foreground">
+                    {filteredItems.length - MAX_RESULTS} more — refine the
+                    search to see them
                   </div>
-                </div>
-              </CommandItem>
-            ))}
-          </CommandGroup>
-        </CommandList>
+                )}
+              </CommandGroup>
+            </CommandList>
+          </>
+        )}
       </CommandDialog>
+
+      {previewItem && (
+        <PreviewModal
+          item={previewItem}
+          onClose={() => setPreviewItem(null)}
+          isHidden={isHidden}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,234 @@
+import type React from "react";
+
+import { useEffect, useMemo, useState } from "react";
+import { type MediaItem, useMediaStore } from "@/hooks/use-media-store";
+import { undoAction } from "@/hooks/use-history-store";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TagsField, parseTags } from "@/components/tags-field";
+import { detectMediaTypeFromUrl } from "@/lib/utils";
+import { checkMediaUrl } from "@/lib/media";
+import { toast } from "sonner";
+
+interface EditMediaDialogProps {
+  item: MediaItem;
+  isOpen: boolean;
+  onClose: () => void;
+  isHidden?: boolean; // item lives in the hidden vault
+}
+
+export function EditMediaDialog({
+  item,
+  isOpen,
+  onClose,
+  isHidden = false,
+}: EditMediaDialogProps) {
+  const { updateItem, updateHiddenItem, allTags, hiddenItems } =
+    useMediaStore();
+  const [url, setUrl] = useState("");
+  const [name, setName] = useState("");
+  const [type, setType] = useState<MediaItem["type"]>("image");
+  const [typeTouched, setTypeTouched] = useState(false);
+  const [tagsInput, setTagsInput] = useState("");
+  const [thumbnail, setThumbnail] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  // Image items default to their own URL as thumbnail; keep that in step
+  const autoThumbnail = item.thumbnail === item.url;
+
+  const suggestions = useMemo(
+    () =>
+      isHidden
+        ? Array.from(new Set(hiddenItems.flatMap((i) => i.tags))).sort()
+        : allTags,
+    [isHidden, hiddenItems, allTags]
+  );
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setUrl(item.url);
+    setName(item.name);
+    setType(item.type);
+    setTypeTouched(false);
+    setTagsInput(item.tags.join(", "));
+    setThumbnail(autoThumbnail ? "" : (item.thumbnail ?? ""));
+    setError("");
+  }, [isOpen, item]);
+
+  // Re-detect the type for a new URL unless the user picked one
+  useEffect(() => {
+    if (!typeTouched && url.trim() && url.trim() !== item.url) {
+      setType(detectMediaTypeFromUrl(url.trim()));
+    }
+  }, [url, typeTouched, item.url]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    const checkedUrl = checkMediaUrl(url);
+    if ("reason" in checkedUrl) {
+      setError(checkedUrl.reason);
+      return;
+    }
+    if (thumbnail.trim()) {
+      const checkedThumb = checkMediaUrl(thumbnail);
+      if ("reason" in checkedThumb) {
+        setError(`Thumbnail: ${checkedThumb.reason}`);
+        return;
+      }
+    }
+    const tags = parseTags(tagsInput);
+    if (tags.length === 0) {
+      setError("At least one tag is required");
+      return;
+    }
+
+    const nextUrl = checkedUrl.url;
+    const updates = {
+      url: nextUrl,
+      name: name.trim() || new URL(nextUrl).hostname || "Untitled",
+      type,
+      tags: Array.from(new Set(tags)),
+      thumbnail: thumbnail.trim()
+        ? thumbnail.trim()
+        : type === "image"
+          ? nextUrl
+          : undefined,
+    };
+
+    setIsSaving(true);
+    try {
+      if (isHidden) {
+        await updateHiddenItem(item.id, updates);
+      } else {
+        await updateItem(item.id, updates);
+      }
+      toast.success("Saved", {
+        description: updates.name,
+        action: undoAction(),
+      });
+      onClose();
+    } catch (err) {
+      setError("Failed to save changes. Please try again.");
+      console.error(err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        if (!open) onClose();
+      }}
+    >
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit Media</DialogTitle>
+          <DialogDescription>
+            Changing the URL or type re-detects the format
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="edit-url">Media URL *</Label>
+            <Input
+              id="edit-url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              disabled={isSaving}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-name">Title</Label>
+            <Input
+              id="edit-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={isSaving}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-type">Media Type</Label>
+            <Select
+              value={type}
+              onValueChange={(value: MediaItem["type"]) => {
+                setType(value);
+                setTypeTouched(true);
+              }}
+            >
+              <SelectTrigger id="edit-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="image">Image</SelectItem>
+                <SelectItem value="video">Video</SelectItem>
+                <SelectItem value="other">Other</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-tags">Tags * (comma-separated)</Label>
+            <TagsField
+              id="edit-tags"
+              value={tagsInput}
+              onChange={setTagsInput}
+              allTags={suggestions}
+              disabled={isSaving}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-thumbnail">Thumbnail URL (optional)</Label>
+            <Input
+              id="edit-thumbnail"
+              placeholder="Defaults to the media URL for images"
+              value={thumbnail}
+              onChange={(e) => setThumbnail(e.target.value)}
+              disabled={isSaving}
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <div className="flex gap-2 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={isSaving}
+              className="flex-1 bg-transparent"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving} className="flex-1">
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,27 @@
+import { Heart } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface FavoritesFilterProps {
+  favoritesOnly: boolean;
+  onChange: (favoritesOnly: boolean) => void;
+}
+
+export function FavoritesFilter({
+  favoritesOnly,
+  onChange,
+}: FavoritesFilterProps) {
+  return (
+    <Button
+      variant={favoritesOnly ? "secondary" : "outline"}
+      size="sm"
+      onClick={() => onChange(!favoritesOnly)}
+      className="gap-2 bg-transparent"
+      aria-pressed={favoritesOnly}
+    >
+      <Heart
+        className={`h-4 w-4 ${favoritesOnly ? "fill-current text-red-500" : ""}`}
+      />
+      <span className="text-sm font-medium">Favorites</span>
+    </Button>
+  );
+}
@@ -0,0 +1,42 @@
+import { useLayoutStore, type GroupKey } from "@/hooks/use-layout-store";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Rows3 } from "lucide-react";
+
+const groupings: { key: GroupKey; label: string }[] = [
+  { key: "none", label: "No grouping" },
+  { key: "domain", label: "Domain" },
+  { key: "tag", label: "Primary tag" },
+  { key: "format", label: "Format" },
+  { key: "day", label: "Day" },
+  { key: "week", label: "Week" },
+  { key: "month", label: "Month" },
+];
+
+export function GroupSwitcher() {
+  const { groupBy, setGroupBy } = useLayoutStore();
+
+  return (
+    <Select
+      value={groupBy}
+      onValueChange={(value: GroupKey) => setGroupBy(value)}
+    >
+      <SelectTrigger className="w-full sm:w-40 gap-2" title="Group by">
+        <Rows3 className="h-4 w-4 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {groupings.map(({ key, label }) => (
+          <SelectItem key={key} value={key}>
+            {label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
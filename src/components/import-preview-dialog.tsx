@@ -0,0 +1,148 @@
+import { useMemo, useState } from "react";
+import type { MediaItem } from "@/hooks/use-media-store";
+import {
+  hasVaultData,
+  planImport,
+  type Backup,
+  type ImportMode,
+} from "@/lib/backup";
+import { Dialog, DialogContent, DialogHeader } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Lock } from "lucide-react";
+
+interface ImportPreviewDialogProps {
+  backup: Backup | null;
+  existing: MediaItem[];
+  hiddenCount: number;
+  onClose: () => void;
+  onConfirm: (mode: ImportMode) => void;
+}
+
+// Dry-run summary of a backup import; nothing is written until confirmed
+export function ImportPreviewDialog({
+  backup,
+  existing,
+  hiddenCount,
+  onClose,
+  onConfirm,
+}: ImportPreviewDialogProps) {
+  const hasExisting = existing.length > 0 || hiddenCount > 0;
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const effectiveMode: ImportMode = hasExisting ? mode : "overwrite";
+
+  const plan = useMemo(
+    () => (backup ? planImport(backup.items, existing, effectiveMode) : null),
+    [backup, existing, effectiveMode]
+  );
+
+  if (!backup || !plan) return null;
+  const withVault = hasVaultData(backup);
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>Import Preview</DialogHeader>
+        <div className="space-y-4">
+          {hasExisting && (
+            <div className="flex gap-2 rounded-lg bg-muted p-1">
+              <Button
+                size="sm"
+                variant={mode === "merge" ? "default" : "ghost"}
+                onClick={() => setMode("merge")}
+                className="flex-1"
+              >
+                Merge
+              </Button>
+              <Button
+                size="sm"
+                variant={mode === "overwrite" ? "default" : "ghost"}
+                onClick={() => setMode("overwrite")}
+                className="flex-1"
+              >
+                Overwrite
+              </Button>
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="rounded-md border border-border/40 p-3">
+              <p className="text-2xl font-semibold">{plan.toAdd.length}</p>
+              <p className="text-xs text-muted-foreground">to add</p>
+            </div>
+            <div className="rounded-md border border-border/40 p-3">
+              <p className="text-2xl font-semibold">{plan.duplicates}</p>
+              <p className="text-xs text-muted-foreground">
+                duplicates skipped
+              </p>
+            </div>
+            <div className="rounded-md border border-border/40 p-3">
+              <p className="text-2xl font-semibold">{plan.rejected.length}</p>
+              <p className="text-xs text-muted-foreground">rejected</p>
+            </div>
+          </div>
+
+          {effectiveMode === "overwrite" && hasExisting && (
+            <p className="text-sm text-destructive">
+              Overwrite removes all {existing.length} current item(s)
+              {hiddenCount > 0 ? ` and ${hiddenCount} hidden item(s)` : ""}.
+            </p>
+          )}
+
+          {plan.rejected.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Rejected rows</p>
+              <ul className="max-h-40 overflow-y-auto rounded-md bg-muted/50 p-2 text-xs space-y-1">
+                {plan.rejected.map((r) => (
+                  <li key={r.index} className="break-all">
+                    <span className="text-muted-foreground">
+                      #{r.index + 1}
+                    </span>{" "}
+                    {r.reason}
+                    {r.url ? ` — ${r.url}` : ""}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {backup.boards.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Includes {backup.boards.length} board(s)
+              {effectiveMode === "merge"
+                ? "; boards matching an existing name are merged"
+                : ""}
+              .
+            </p>
+          )}
+
+          {withVault && (
+            <p className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Lock className="h-4 w-4" />
+              Includes Hidden Vault data. You’ll be asked for its passcode after
+              the import.
+            </p>
+          )}
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              variant={
+                effectiveMode === "overwrite" && hasExisting
+                  ? "destructive"
+                  : "default"
+              }
+              onClick={() => onConfirm(effectiveMode)}
+              disabled={plan.toAdd.length === 0 && !withVault}
+            >
+              {effectiveMode === "overwrite" && hasExisting
+                ? "Overwrite"
+                : "Import"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,9 +2,20 @@ import type React from "react";
 
 import { useLayoutStore, type LayoutType } from "@/hooks/use-layout-store";
 import { Button } from "@/components/ui/button";
-import { LayoutGrid, ImageIcon, Grid3x3, Maximize2 } from "lucide-react";
+import {
+  LayoutGrid,
+  ImageIcon,
+  Grid3x3,
+  Maximize2,
+  Table2,
+  CalendarDays,
+} from "lucide-react";
 
-const layouts: { type: LayoutType; label: string; icon: React.ReactNode }[] = [
+export const layouts: {
+  type: LayoutType;
+  label: string;
+  icon: React.ReactNode;
+}[] = [
   { type: "grid", label: "Grid", icon: <LayoutGrid className="h-4 w-4" /> },
   {
     type: "overlay",
@@ -13,6 +24,12 @@ const layouts: { type: LayoutType; label: string; icon: React.ReactNode }[] = [
   },
   { type: "large", label: "Large", icon: <Maximize2 className="h-4 w-4" /> },
   { type: "masonry", label: "Masonry", icon: <Grid3x3 className="h-4 w-4" /> },
+  { type: "table", label: "Table", icon: <Table2 className="h-4 w-4" /> },
+  {
+    type: "timeline",
+    label: "Timeline",
+    icon: <CalendarDays className="h-4 w-4" />,
+  },
 ];
 
 export function LayoutSwitcher() {
@@ -0,0 +1,216 @@
+import { type ReactNode, useMemo } from "react";
+import { cn } from "@/lib/utils";
+
+// Small markdown subset rendered straight to React elements, so notes never
+// reach the DOM as HTML: headings, paragraphs, lists, quotes, code, emphasis
+// and http(s)/mailto links.
+
+type Block =
+  | { kind: "heading"; level: 1 | 2 | 3; text: string }
+  | { kind: "paragraph"; text: string }
+  | { kind: "list"; ordered: boolean; items: string[] }
+  | { kind: "quote"; text: string }
+  | { kind: "code"; text: string };
+
+// [^\n] rather than ".", which stops at U+2028/U+2029 and would leave a
+// line that no block claims
+const LIST_ITEM = /^\s*(?:([-*+])|(\d+)[.)])\s+([^\n]*)$/;
+
+function parseBlocks(source: string): Block[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (line.trimStart().startsWith("```")) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trimStart().startsWith("```")) {
+        code.push(lines[i++]);
+      }
+      i++; // closing fence
+      blocks.push({ kind: "code", text: code.join("\n") });
+      continue;
+    }
+
+    const heading = /^(#{1,3})\s+([^\n]*)$/.exec(line);
+    if (heading) {
+      const level = heading[1].length as 1 | 2 | 3;
+      blocks.push({ kind: "heading", level, text: heading[2] });
+      i++;
+      continue;
+    }
+
+    if (line.startsWith(">")) {
+      const quote: string[] = [];
+      while (i < lines.length && lines[i].startsWith(">")) {
+        quote.push(lines[i++].replace(/^>\s?/, ""));
+      }
+      blocks.push({ kind: "quote", text: quote.join(" ") });
+      continue;
+    }
+
+    const first = LIST_ITEM.exec(line);
+    if (first) {
+      const ordered = !first[1];
+      const items: string[] = [];
+      let match: RegExpExecArray | null;
+      while (
+        i < lines.length &&
+        (match = LIST_ITEM.exec(lines[i])) &&
+        !match[1] === ordered
+      ) {
+        items.push(match[3]);
+        i++;
+      }
+      blocks.push({ kind: "list", ordered, items });
+      continue;
+    }
+
+    // Always takes the current line, so the loop advances whatever it holds
+    const paragraph = [lines[i++].trim()];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !/^(#{1,3}\s|>|```)/.test(lines[i]) &&
+      !LIST_ITEM.test(lines[i])
+    ) {
+      paragraph.push(lines[i++].trim());
+    }
+    blocks.push({ kind: "paragraph", text: paragraph.join(" ") });
+  }
+
+  return blocks;
+}
+
+function safeHref(href: string): string | null {
+  try {
+    const url = new URL(href);
+    return ["http:", "https:", "mailto:"].includes(url.protocol)
+      ? url.href
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+const INLINE =
+  /`([^`]+)`|\*\*([^*]+)\*\*|\*([^*]+)\*|_([^_]+)_|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+function renderInline(text: string): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE)) {
+    const index = match.index ?? 0;
+    if (index > last) nodes.push(text.slice(last, index));
+    const [, code, bold, em, em2, label, href] = match;
+    const key = nodes.length;
+    if (code !== undefined) {
+      nodes.push(
+        <code key={key} className="rounded bg-muted px-1 font-mono text-xs">
+          {code}
+        </code>
+      );
+    } else if (bold !== undefined) {
+      nodes.push(<strong key={key}>{renderInline(bold)}</strong>);
+    } else if (em !== undefined || em2 !== undefined) {
+      nodes.push(<em key={key}>{renderInline(em ?? em2)}</em>);
+    } else {
+      const url = safeHref(href);
+      nodes.push(
+        url ? (
+          <a
+            key={key}
+            href={url}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-primary underline"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {renderInline(label)}
+          </a>
+        ) : (
+          label
+        )
+      );
+    }
+    last = index + match[0].length;
+  }
+  if (last < text.length) nodes.push(text.slice(last));
+  return nodes;
+}
+
+const headingClass = {
+  1: "text-lg font-semibold",
+  2: "text-base font-semibold",
+  3: "text-sm font-semibold",
+};
+
+export function Markdown({
+  source,
+  className,
+}: {
+  source: string;
+  className?: string;
+}) {
+  const blocks = useMemo(() => parseBlocks(source), [source]);
+
+  return (
+    <div className={cn("space-y-2 text-sm wrap-break-word", className)}>
+      {blocks.map((block, i) => {
+        switch (block.kind) {
+          case "heading": {
+            const Tag = `h${block.level + 2}` as "h3" | "h4" | "h5";
+            return (
+              <Tag key={i} className={headingClass[block.level]}>
+                {renderInline(block.text)}
+              </Tag>
+            );
+          }
+          case "list": {
+            const List = block.ordered ? "ol" : "ul";
+            return (
+              <List
+                key={i}
+                className={`pl-5 space-y-1 ${
+                  block.ordered ? "list-decimal" : "list-disc"
+                }`}
+              >
+                {block.items.map((item, j) => (
+                  <li key={j}>{renderInline(item)}</li>
+                ))}
+              </List>
+            );
+          }
+          case "quote":
+            return (
+              <blockquote
+                key={i}
+                className="border-l-2 border-border pl-3 text-muted-foreground"
+              >
+                {renderInline(block.text)}
+              </blockquote>
+            );
+          case "code":
+            return (
+              <pre
+                key={i}
+                className="overflow-x-auto rounded bg-muted p-2 font-mono text-xs"
+              >
+                {block.text}
+              </pre>
+            );
+          default:
+            return <p key={i}>{renderInline(block.text)}</p>;
+        }
+      })}
+    </div>
+  );
+}
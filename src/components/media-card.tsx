@@ -1,19 +1,43 @@
 import { useEffect, useState } from "react";
-import { type MediaItem, useMediaStore } from "@/hooks/use-media-store";
+import {
+  type MediaItem,
+  type MediaUpdates,
+  useMediaStore,
+} from "@/hooks/use-media-store";
 import type { LayoutType } from "@/hooks/use-layout-store";
+import { useBoardStore } from "@/hooks/use-board-store";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Copy, Trash2, MoreVertical, Eye, Lock } from "lucide-react";
+import {
+  Copy,
+  Trash2,
+  MoreVertical,
+  Eye,
+  Lock,
+  Library,
+  Pencil,
+  Heart,
+  Pin,
+  Star,
+} from "lucide-react";
 import { toast } from "sonner";
+import { undoAction } from "@/hooks/use-history-store";
 import type React from "react";
 import { Video } from "./video-preview";
 import { Checkbox } from "./ui/checkbox";
+import { EditMediaDialog } from "./edit-media-dialog";
+import { Markdown } from "./markdown";
+import { StarRating } from "./star-rating";
 
 interface MediaCardProps {
   item: MediaItem;
@@ -36,8 +60,17 @@ export function MediaCard({
   selected = false,
   onSelectToggle,
 }: MediaCardProps) {
-  const { deleteItem, hideItem, unhideItem } = useMediaStore();
+  const {
+    deleteItem,
+    hideItem,
+    unhideItem,
+    setBoardMembership,
+    updateItem,
+    updateHiddenItem,
+  } = useMediaStore();
+  const boards = useBoardStore((state) => state.boards);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
   const [validThumbnail, setValidThumbnail] = useState<string | null>(null);
 
   const thumbnailUrl =
@@ -58,7 +91,10 @@ export function MediaCard({
     setIsDeleting(true);
     try {
       await deleteItem(item.id);
-      toast.success("Deleted!", { description: "Media removed" });
+      toast.success("Moved to Trash", {
+        description: item.name,
+        action: undoAction(),
+      });
     } catch {
       toast.error("Error", { description: "Failed to delete media" });
     } finally {
@@ -70,7 +106,10 @@ export function MediaCard({
     e.stopPropagation();
     try {
       await hideItem(item.id);
-      toast.success("Hidden!", { description: "Media moved to hidden vault" });
+      toast.success("Hidden!", {
+        description: "Media moved to hidden vault",
+        action: undoAction(),
+      });
     } catch {
       toast.error("Error", { description: "Failed to hide media" });
     }
@@ -80,12 +119,35 @@ export function MediaCard({
     e.stopPropagation();
     try {
       await unhideItem(item.id);
-      toast.success("Unhidden!", { description: "Media moved to public" });
+      toast.success("Unhidden!", {
+        description: "Media moved to public",
+        action: undoAction(),
+      });
     } catch {
       toast.error("Error", { description: "Failed to unhide media" });
     }
   };
 
+  const handleUpdate = async (updates: MediaUpdates) => {
+    try {
+      if (isHiddenPage) {
+        await updateHiddenItem(item.id, updates);
+      } else {
+        await updateItem(item.id, updates);
+      }
+    } catch {
+      toast.error("Error", { description: "Failed to update media" });
+    }
+  };
+
+  const handleToggleBoard = async (boardId: string, member: boolean) => {
+    try {
+      await setBoardMembership([item.id], boardId, member);
+    } catch {
+      toast.error("Error", { description: "Failed to update board" });
+    }
+  };
+
   useEffect(() => {
     if (!thumbnailUrl) return;
     const img = new Image();
@@ -188,6 +250,47 @@ export function MediaCard({
           <DropdownMenuItem onClick={handleCopyUrl}>
             <Copy className="mr-2 h-4 w-4" /> Copy URL
           </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={(e) => {
+              e.stopPropagation();
+              setIsEditing(true);
+            }}
+          >
+            <Pencil className="mr-2 h-4 w-4" /> Edit
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={(e) => {
+              e.stopPropagation();
+              handleUpdate({ favorite: item.favorite ? undefined : true });
+            }}
+          >
+            <Heart className="mr-2 h-4 w-4" />
+            {item.favorite ? "Remove from Favorites" : "Add to Favorites"}
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={(e) => {
+              e.stopPropagation();
+              handleUpdate({
+                pinnedAt: item.pinnedAt === undefined ? Date.now() : undefined,
+              });
+            }}
+          >
+            <Pin className="mr-2 h-4 w-4" />
+            {item.pinnedAt === undefined ? "Pin to top" : "Unpin"}
+          </DropdownMenuItem>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger onClick={(e) => e.stopPropagation()}>
+              <Star className="mr-2 h-4 w-4" /> Rating
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              <div className="px-2 py-1.5">
+                <StarRating
+                  value={item.rating}
+                  onChange={(rating) => handleUpdate({ rating })}
+                />
+              </div>
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
           {isHiddenPage ? (
             <DropdownMenuItem onClick={handleUnhide}>
               <Lock className="mr-2 h-4 w-4" /> Unhide
@@ -197,6 +300,27 @@ export function MediaCard({
               <Lock className="mr-2 h-4 w-4" /> Hide
             </DropdownMenuItem>
           )}
+          {!isHiddenPage && boards.length > 0 && (
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger onClick={(e) => e.stopPropagation()}>
+                <Library className="mr-2 h-4 w-4" /> Boards
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                {boards.map((board) => (
+                  <DropdownMenuCheckboxItem
+                    key={board.id}
+                    checked={(item.boardIds ?? []).includes(board.id)}
+                    onClick={(e) => e.stopPropagation()}
+                    onCheckedChange={(checked) =>
+                      handleToggleBoard(board.id, checked === true)
+                    }
+                  >
+                    {board.name}
+                  </DropdownMenuCheckboxItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          )}
           <DropdownMenuItem
             onClick={handleDelete}
             disabled={isDeleting}
@@ -210,8 +334,9 @@ export function MediaCard({
   );
 
   // ---------- layout config ----------
+  // Table rows are not cards; the timeline reuses the grid card
   const layoutMap: Record<
-    LayoutType,
+    Exclude<LayoutType, "table" | "timeline">,
     { wrapper: string; overlay?: React.ReactNode; showDetails?: boolean }
   > = {
     grid: {
@@ -255,7 +380,8 @@ export function MediaCard({
     },
   };
 
-  const { wrapper, overlay, showDetails } = layoutMap[layout] ?? layoutMap.grid;
+  const { wrapper, overlay, showDetails } =
+    layoutMap[layout as keyof typeof layoutMap] ?? layoutMap.grid;
 
   // ---------- final render ----------
   const handleCardClick = (e: React.MouseEvent) => {
@@ -268,43 +394,72 @@ export function MediaCard({
   };
 
   return (
-    <div className={wrapper} onClick={handleCardClick}>
-      <div className={`relative w-full aspect-square bg-muted overflow-hidden`}>
-        {selectable && (
-          <div className="absolute top-2 left-2 z-10">
-            <Checkbox
-              checked={selected}
-              onCheckedChange={() => onSelectToggle?.(!selected)}
-              onClick={(e) => e.stopPropagation()}
-              className="border-neutral-50 checked:bg-primary"
-            />
+    <>
+      <div className={wrapper} onClick={handleCardClick}>
+        <div className={`relative w-full aspect-square bg-muted overflow-hidden`}>
+          {selectable && (
+            <div className="absolute top-2 left-2 z-10">
+              <Checkbox
+                checked={selected}
+                onCheckedChange={() => onSelectToggle?.(!selected)}
+                onClick={(e) => e.stopPropagation()}
+                className="border-neutral-50 checked:bg-primary"
+              />
+            </div>
+          )}
+          <div className={`${blurMedia ? "filter blur-sm" : ""} h-full`}>
+            {renderMedia()}
           </div>
-        )}
-        <div className={`${blurMedia ? "filter blur-sm" : ""} h-full`}>
-          {renderMedia()}
+          {overlay}
+          {(item.pinnedAt !== undefined || item.favorite || item.rating) && (
+            <div className="absolute bottom-2 left-2 flex items-center gap-1 rounded-md bg-black/50 px-1.5 py-1 text-white">
+              {item.pinnedAt !== undefined && <Pin className="h-3.5 w-3.5" />}
+              {item.favorite && (
+                <Heart className="h-3.5 w-3.5 fill-red-500 text-red-500" />
+              )}
+              {item.rating && (
+                <span className="flex items-center gap-0.5 text-xs">
+                  <Star className="h-3.5 w-3.5 fill-amber-400 text-amber-400" />
+                  {item.rating}
+                </span>
+              )}
+            </div>
+          )}
         </div>
-        {overlay}
-      </div>
 
-      {showDetails && (
-        <div className="p-3 space-y-2 flex-1 flex flex-col">
-          <h3 className="font-semibold text-sm text-foreground line-clamp-2">
-            {item.name}
-          </h3>
-          <div className="flex flex-wrap gap-1">
-            {item.tags.slice(0, 2).map((tag) => (
-              <Badge key={tag} variant="secondary" className="text-xs">
-                {tag}
-              </Badge>
-            ))}
-            {item.tags.length > 2 && (
-              <Badge variant="secondary" className="text-xs">
-                +{item.tags.length - 2}
-              </Badge>
-            )}
+        {showDetails && (
+          <div className="p-3 space-y-2 flex-1 flex flex-col">
+            <h3 className="font-semibold text-sm text-foreground line-clamp-2">
+              {item.name}
+            </h3>
+            <div className="flex flex-wrap gap-1">
+              {item.tags.slice(0, 2).map((tag) => (
+                <Badge key={tag} variant="secondary" className="text-xs">
+                  {tag}
+                </Badge>
+              ))}
+              {item.tags.length > 2 && (
+                <Badge variant="secondary" className="text-xs">
+                  +{item.tags.length - 2}
+                </Badge>
+              )}
+            </div>
+          </div>
+        )}
+
+        {layout === "large" && item.notes && (
+          <div className="p-3">
+            <Markdown source={item.notes} className="line-clamp-6" />
           </div>
-        </div>
-      )}
-    </div>
+        )}
+      </div>
+      {/* Outside the card so dialog clicks do not bubble into it */}
+      <EditMediaDialog
+        item={item}
+        isOpen={isEditing}
+        onClose={() => setIsEditing(false)}
+        isHidden={isHiddenPage}
+      />
+    </>
   );
 }
@@ -1,8 +1,17 @@
-import { useState } from "react";
-import type { MediaItem } from "@/hooks/use-media-store";
-import { useLayoutStore } from "@/hooks/use-layout-store";
+import { Fragment, useEffect, useMemo, useRef, useState } from "react";
+import { type MediaItem, useMediaStore } from "@/hooks/use-media-store";
+import { useLayoutStore, type LayoutType } from "@/hooks/use-layout-store";
 import { MediaCard } from "./media-card";
+import { VirtualRows } from "./virtual-rows";
+import { MediaTimeline } from "./media-timeline";
 import { PreviewModal } from "./preview-modal";
+import {
+  MediaTableHeader,
+  MediaTableRow,
+  sortTableRows,
+  tableTemplate,
+  type TableSort,
+} from "./media-table";
 import {
   Empty,
   EmptyDescription,
@@ -10,7 +19,12 @@ import {
   EmptyMedia,
   EmptyTitle,
 } from "@/components/ui/empty";
-import { BoxIcon } from "lucide-react";
+import { BoxIcon, ChevronDown, ChevronRight } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { groupItems, pinnedFirst, planMove } from "@/lib/media";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
 
 interface MediaGalleryProps {
   items: MediaItem[];
@@ -19,6 +33,51 @@ interface MediaGalleryProps {
   selectable?: boolean;
   selectedIds?: string[];
   onToggleSelect?: (id: string, checked: boolean) => void;
+  // Called when the last card is in view (to page in more items)
+  onEndReached?: () => void;
+}
+
+// Column counts per Tailwind breakpoint: base, sm, md, lg, xl
+const layoutColumns: Record<LayoutType, number[]> = {
+  grid: [1, 2, 3, 4, 5],
+  overlay: [1, 2, 3, 4, 4],
+  large: [1, 1, 1, 1, 1],
+  masonry: [1, 2, 3, 4, 5],
+  table: [1, 1, 1, 1, 1],
+  timeline: [1, 2, 3, 3, 4],
+};
+const breakpoints = [640, 768, 1024, 1280];
+
+// Alt+Arrow keys move a card in manual order; up/down jump a row
+const moveKeys: Record<string, "back" | "forward" | "up" | "down"> = {
+  ArrowLeft: "back",
+  ArrowRight: "forward",
+  ArrowUp: "up",
+  ArrowDown: "down",
+};
+
+// Row height guesses until rows are measured
+const estimatedRowHeight: Record<LayoutType, number> = {
+  grid: 360,
+  overlay: 300,
+  large: 760,
+  masonry: 280,
+  table: 57,
+  timeline: 420,
+};
+
+function useBreakpointTier() {
+  const tierFor = (width: number) =>
+    breakpoints.filter((bp) => width >= bp).length;
+  const [tier, setTier] = useState(() =>
+    typeof window === "undefined" ? 0 : tierFor(window.innerWidth)
+  );
+  useEffect(() => {
+    const onResize = () => setTier(tierFor(window.innerWidth));
+    window.addEventListener("resize", onResize);
+    return () => window.removeEventListener("resize", onResize);
+  }, []);
+  return tier;
 }
 
 export function MediaGallery({
@@ -28,11 +87,100 @@ export function MediaGallery({
   selectable = false,
   selectedIds = [],
   onToggleSelect,
+  onEndReached,
 }: MediaGalleryProps) {
   const [selectedItem, setSelectedItem] = useState<MediaItem | null>(null);
-  const { layout } = useLayoutStore();
+  const { layout, sortBy, groupBy, tableWidths } = useLayoutStore();
+  const setPositions = useMediaStore((state) => state.setPositions);
+  const tier = useBreakpointTier();
+  const columns = (layoutColumns[layout] ?? layoutColumns.masonry)[tier];
+  const [tableSort, setTableSort] = useState<TableSort>(null);
+  // A table column sort overrides pinning and the page sort
+  const tableSorted = layout === "table" && tableSort !== null;
+  const ordered = useMemo(
+    () => (tableSorted ? sortTableRows(items, tableSort) : pinnedFirst(items)),
+    [items, tableSorted, tableSort]
+  );
+  // The timeline is ordered by date, so there is nothing to arrange
+  const reorderable =
+    sortBy === "manual" && !tableSorted && layout !== "timeline";
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const refocusId = useRef<string | null>(null);
+  const [collapsed, setCollapsed] = useState<string[]>([]);
+
+  // Keyboard moves remount the card in another row; put focus back on it
+  useEffect(() => {
+    const id = refocusId.current;
+    if (!id) return;
+    refocusId.current = null;
+    const el = document.querySelector<HTMLElement>(
+      `[data-reorder-id="${CSS.escape(id)}"]`
+    );
+    el?.focus();
+    el?.scrollIntoView({ block: "nearest" });
+  }, [ordered]);
+
+  // grid / overlay / large: one virtual row per line of cards.
+  // masonry: one virtual list per column, filled left to right.
+  // Each group-by section is laid out on its own.
+  const sections = useMemo(
+    () =>
+      groupItems(ordered, groupBy).map((section) => {
+        const rows: MediaItem[][] = [];
+        if (layout === "masonry") {
+          for (let c = 0; c < columns; c++) rows.push([]);
+          section.items.forEach((item, i) => rows[i % columns].push(item));
+        } else {
+          for (let i = 0; i < section.items.length; i += columns) {
+            rows.push(section.items.slice(i, i + columns));
+          }
+        }
+        return { ...section, rows };
+      }),
+    [ordered, groupBy, layout, columns]
+  );
+
+  // Cards in the order they appear on screen, across sections
+  const displayed = useMemo(
+    () => sections.flatMap((section) => section.items),
+    [sections]
+  );
+
+  // Drops land in the target's slot: after it when moving forward
+  // The new position is planned against that same order, so pinned items
+  // and sections ahead of the card are accounted for
+  const moveItem = (id: string, targetId: string) => {
+    if (id === targetId || !reorderable) return;
+    const from = displayed.findIndex((i) => i.id === id);
+    const to = displayed.findIndex((i) => i.id === targetId);
+    setPositions(planMove(displayed, id, targetId, from < to)).catch(() => {
+      toast.error("Error", { description: "Failed to reorder media" });
+    });
+  };
+
+  const handleMoveKey = (e: React.KeyboardEvent, item: MediaItem) => {
+    const direction = moveKeys[e.key];
+    if (!e.altKey || !direction) return;
+    e.preventDefault();
+    const step = {
+      back: -1,
+      forward: 1,
+      up: -columns,
+      down: columns,
+    }[direction];
+    const from = displayed.findIndex((i) => i.id === item.id);
+    const to = Math.min(Math.max(from + step, 0), displayed.length - 1);
+    if (to === from) return;
+    refocusId.current = item.id;
+    moveItem(item.id, displayed[to].id);
+  };
+
+  // Nothing to show for the current filters; keep paging until something is
+  useEffect(() => {
+    if (items.length === 0) onEndReached?.();
+  }, [items.length, onEndReached]);
 
-  console.log("Rendering MediaGallery with items:", items);
   if (items.length === 0) {
     return (
       <Empty>
@@ -53,52 +201,238 @@ export function MediaGallery({
     );
   }
 
-  // lookup for layout-specific wrappers
-  const layoutClasses: Record<string, string> = {
-    grid: "grid grid-cols-1 gap-4 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5",
-    overlay:
-      "grid grid-cols-1 gap-3 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4",
-    large: "flex flex-col items-center gap-8 max-w-5xl mx-auto",
-    masonry:
-      "columns-1 sm:columns-2 md:columns-3 lg:columns-4 xl:columns-5 gap-4",
+  const template = tableTemplate(tableWidths, selectable);
+
+  const renderCard = (item: MediaItem) => {
+    const card =
+      layout === "table" ? (
+        <MediaTableRow
+          key={item.id}
+          item={item}
+          template={template}
+          onClick={() => setSelectedItem(item)}
+          isHiddenPage={isHidden}
+          blurMedia={blurAll}
+          selectable={selectable}
+          selected={selectedIds.includes(item.id)}
+          onSelectToggle={(checked) => onToggleSelect?.(item.id, checked)}
+        />
+      ) : (
+        <MediaCard
+          key={item.id}
+          item={item}
+          onClick={() => setSelectedItem(item)}
+          layout={layout === "timeline" ? "grid" : layout}
+          isHiddenPage={isHidden}
+          blurMedia={blurAll}
+          selectable={selectable}
+          selected={selectedIds.includes(item.id)}
+          onSelectToggle={(checked) => onToggleSelect?.(item.id, checked)}
+        />
+      );
+    if (!reorderable) return card;
+
+    return (
+      <div
+        key={item.id}
+        data-reorder-id={item.id}
+        draggable
+        tabIndex={0}
+        aria-roledescription="sortable item"
+        aria-keyshortcuts="Alt+ArrowLeft Alt+ArrowRight Alt+ArrowUp Alt+ArrowDown"
+        onDragStart={(e) => {
+          // Drop the image/link payload so the page drop handler ignores it
+          e.dataTransfer.clearData();
+          e.dataTransfer.setData("application/x-previewz-item", item.id);
+          e.dataTransfer.effectAllowed = "move";
+          setDraggingId(item.id);
+        }}
+        onDragEnd={() => {
+          setDraggingId(null);
+          setDropTargetId(null);
+        }}
+        onDragOver={(e) => {
+          if (!draggingId) return;
+          e.preventDefault();
+          e.stopPropagation();
+          e.dataTransfer.dropEffect = "move";
+          if (dropTargetId !== item.id) setDropTargetId(item.id);
+        }}
+        onDrop={(e) => {
+          if (!draggingId) return;
+          e.preventDefault();
+          e.stopPropagation();
+          moveItem(draggingId, item.id);
+          setDraggingId(null);
+          setDropTargetId(null);
+        }}
+        onKeyDown={(e) => handleMoveKey(e, item)}
+        className={cn(
+          "rounded-lg outline-none focus-visible:ring-2 focus-visible:ring-primary cursor-grab",
+          draggingId === item.id && "opacity-40",
+          dropTargetId === item.id &&
+            draggingId !== item.id &&
+            "ring-2 ring-primary"
+        )}
+      >
+        {card}
+      </div>
+    );
   };
 
-  // fallback layout class if invalid layout value
-  const containerClass = layoutClasses[layout] ?? layoutClasses.masonry;
-
-  const renderItems = () =>
-    layout === "masonry"
-      ? items.map((item) => (
-          <div key={item.id} className="break-inside-avoid mb-4">
-            <MediaCard
-              item={item}
-              onClick={() => setSelectedItem(item)}
-              layout={layout}
-              isHiddenPage={isHidden}
-              blurMedia={blurAll}
+  const estimateSize = estimatedRowHeight[layout] ?? estimatedRowHeight.masonry;
+
+  const renderItems = (groups: MediaItem[][], onEnd?: () => void) => {
+    if (layout === "masonry") {
+      return (
+        <div className="flex gap-4">
+          {groups.map((column, c) => (
+            <div key={`${columns}-${c}`} className="flex-1 min-w-0">
+              <VirtualRows
+                count={column.length}
+                estimateSize={estimateSize}
+                gap={16}
+                renderRow={(i) => renderCard(column[i])}
+                onEndReached={onEnd}
+              />
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    if (layout === "table") {
+      return (
+        <div className="overflow-x-auto rounded-lg border border-border/50">
+          <div role="table" className="min-w-fit">
+            <MediaTableHeader
+              template={template}
               selectable={selectable}
-              selected={selectedIds.includes(item.id)}
-              onSelectToggle={(checked) => onToggleSelect?.(item.id, checked)}
+              sort={tableSort}
+              onSort={setTableSort}
+            />
+            <VirtualRows
+              key={layout}
+              count={groups.length}
+              estimateSize={estimateSize}
+              gap={0}
+              renderRow={(i) => renderCard(groups[i][0])}
+              onEndReached={onEnd}
             />
           </div>
-        ))
-      : items.map((item) => (
-          <MediaCard
-            key={item.id}
-            item={item}
-            onClick={() => setSelectedItem(item)}
-            layout={layout}
-            isHiddenPage={isHidden}
-            blurMedia={blurAll}
-            selectable={selectable}
-            selected={selectedIds.includes(item.id)}
-            onSelectToggle={(checked) => onToggleSelect?.(item.id, checked)}
+        </div>
+      );
+    }
+
+    if (layout === "large") {
+      return (
+        <div className="max-w-5xl mx-auto">
+          <VirtualRows
+            key={layout}
+            count={groups.length}
+            estimateSize={estimateSize}
+            gap={32}
+            renderRow={(i) => renderCard(groups[i][0])}
+            onEndReached={onEnd}
           />
-        ));
+        </div>
+      );
+    }
+
+    return (
+      <VirtualRows
+        key={`${layout}-${columns}`}
+        count={groups.length}
+        estimateSize={estimateSize}
+        gap={layout === "overlay" ? 12 : 16}
+        renderRow={(i) => (
+          <div
+            className={`grid ${layout === "overlay" ? "gap-3" : "gap-4"}`}
+            style={{
+              gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+            }}
+          >
+            {groups[i].map(renderCard)}
+          </div>
+        )}
+        onEndReached={onEnd}
+      />
+    );
+  };
+
+  const renderSection = (section: (typeof sections)[number], index: number) => {
+    // Only the last section pages in more items
+    const onEnd = index === sections.length - 1 ? onEndReached : undefined;
+    if (groupBy === "none") {
+      return (
+        <Fragment key={section.key}>
+          {renderItems(section.rows, onEnd)}
+        </Fragment>
+      );
+    }
+
+    const isCollapsed = collapsed.includes(section.key);
+    const unselected = section.items.filter((i) => !selectedIds.includes(i.id));
+    return (
+      <section key={section.key} className="mb-8">
+        <div className="mb-4 flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() =>
+              setCollapsed((prev) =>
+                isCollapsed
+                  ? prev.filter((k) => k !== section.key)
+                  : [...prev, section.key]
+              )
+            }
+            aria-expanded={!isCollapsed}
+            className="gap-2 px-2"
+          >
+            {isCollapsed ? (
+              <ChevronRight className="h-4 w-4" />
+            ) : (
+              <ChevronDown className="h-4 w-4" />
+            )}
+            <span className="font-semibold">{section.label}</span>
+            <Badge variant="secondary">{section.items.length}</Badge>
+          </Button>
+          {selectable && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="ml-auto text-xs"
+              onClick={() => {
+                if (unselected.length > 0) {
+                  for (const i of unselected) onToggleSelect?.(i.id, true);
+                } else {
+                  for (const i of section.items) onToggleSelect?.(i.id, false);
+                }
+              }}
+            >
+              {unselected.length > 0 ? "Select all" : "Deselect all"}
+            </Button>
+          )}
+        </div>
+        {!isCollapsed && renderItems(section.rows, onEnd)}
+      </section>
+    );
+  };
 
   return (
     <>
-      <div className={containerClass}>{renderItems()}</div>
+      {layout === "timeline" ? (
+        <MediaTimeline
+          items={items}
+          columns={columns}
+          estimateSize={estimateSize}
+          oldestFirst={sortBy === "oldest"}
+          renderCard={renderCard}
+          onEndReached={onEndReached}
+        />
+      ) : (
+        sections.map(renderSection)
+      )}
 
       {selectedItem && (
         <PreviewModal
@@ -0,0 +1,332 @@
+import type React from "react";
+
+import { useRef, useState } from "react";
+import { type MediaItem, useMediaStore } from "@/hooks/use-media-store";
+import { useLayoutStore, type TableColumn } from "@/hooks/use-layout-store";
+import { undoAction } from "@/hooks/use-history-store";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { parseTags } from "@/components/tags-field";
+import { hostnameOf } from "@/lib/media";
+import { cn } from "@/lib/utils";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { toast } from "sonner";
+
+export type TableSort = {
+  column: Exclude<TableColumn, "thumbnail">;
+  desc: boolean;
+} | null;
+
+interface ColumnDef {
+  key: TableColumn;
+  label: string;
+  width: number; // default px
+  value?: (item: MediaItem) => string | number; // sortable when set
+}
+
+const columnDefs: ColumnDef[] = [
+  { key: "thumbnail", label: "", width: 64 },
+  { key: "name", label: "Name", width: 240, value: (i) => i.name },
+  {
+    key: "domain",
+    label: "Domain",
+    width: 160,
+    value: (i) => hostnameOf(i.url),
+  },
+  { key: "format", label: "Format", width: 100, value: (i) => i.format },
+  { key: "tags", label: "Tags", width: 220, value: (i) => i.tags.join(", ") },
+  { key: "created", label: "Created", width: 120, value: (i) => i.createdAt },
+  { key: "notes", label: "Notes", width: 240, value: (i) => i.notes ?? "" },
+];
+
+const MIN_WIDTH = 48;
+
+export function sortTableRows(
+  items: MediaItem[],
+  sort: TableSort
+): MediaItem[] {
+  const value = sort && columnDefs.find((c) => c.key === sort.column)?.value;
+  if (!sort || !value) return items;
+  const direction = sort.desc ? -1 : 1;
+  return [...items].sort((a, b) => {
+    const x = value(a);
+    const y = value(b);
+    const order =
+      typeof x === "number" && typeof y === "number"
+        ? x - y
+        : String(x).localeCompare(String(y), undefined, {
+            sensitivity: "base",
+            numeric: true,
+          });
+    return order * direction;
+  });
+}
+
+// Shared grid template so header and rows line up; notes takes the slack
+export function tableTemplate(
+  widths: Partial<Record<TableColumn, number>>,
+  selectable: boolean
+): string {
+  const columns = columnDefs.map((c, i) => {
+    const width = widths[c.key] ?? c.width;
+    return i === columnDefs.length - 1
+      ? `minmax(${width}px, 1fr)`
+      : `${width}px`;
+  });
+  return [...(selectable ? ["40px"] : []), ...columns].join(" ");
+}
+
+interface MediaTableHeaderProps {
+  template: string;
+  selectable: boolean;
+  sort: TableSort;
+  onSort: (sort: TableSort) => void;
+}
+
+export function MediaTableHeader({
+  template,
+  selectable,
+  sort,
+  onSort,
+}: MediaTableHeaderProps) {
+  const { tableWidths, setTableWidth } = useLayoutStore();
+
+  // Clicking a header cycles ascending, descending, off
+  const toggleSort = (column: NonNullable<TableSort>["column"]) => {
+    if (sort?.column !== column) onSort({ column, desc: false });
+    else if (!sort.desc) onSort({ column, desc: true });
+    else onSort(null);
+  };
+
+  const startResize = (
+    e: React.PointerEvent<HTMLDivElement>,
+    def: ColumnDef
+  ) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const handle = e.currentTarget;
+    const startX = e.clientX;
+    const startWidth = tableWidths[def.key] ?? def.width;
+    handle.setPointerCapture(e.pointerId);
+
+    const onMove = (move: PointerEvent) => {
+      const width = Math.max(
+        MIN_WIDTH,
+        Math.round(startWidth + move.clientX - startX)
+      );
+      setTableWidth(def.key, width);
+    };
+    const onUp = () => {
+      handle.removeEventListener("pointermove", onMove);
+      handle.removeEventListener("pointerup", onUp);
+    };
+    handle.addEventListener("pointermove", onMove);
+    handle.addEventListener("pointerup", onUp);
+  };
+
+  return (
+    <div
+      role="row"
+      className="grid border-b border-border bg-muted/50 text-xs font-medium text-muted-foreground"
+      style={{ gridTemplateColumns: template }}
+    >
+      {selectable && <div role="columnheader" />}
+      {columnDefs.map((def) => {
+        const column = def.key === "thumbnail" ? null : def.key;
+        const active = column !== null && sort?.column === column;
+        return (
+          <div
+            key={def.key}
+            role="columnheader"
+            aria-sort={
+              active ? (sort?.desc ? "descending" : "ascending") : undefined
+            }
+            className="relative flex items-center px-3 py-2"
+          >
+            {column ? (
+              <button
+                type="button"
+                onClick={() => toggleSort(column)}
+                className="flex items-center gap-1 hover:text-foreground transition-colors"
+              >
+                {def.label}
+                {active &&
+                  (sort?.desc ? (
+                    <ArrowDown className="h-3 w-3" />
+                  ) : (
+                    <ArrowUp className="h-3 w-3" />
+                  ))}
+              </button>
+            ) : (
+              <span className="sr-only">Thumbnail</span>
+            )}
+            <div
+              role="separator"
+              aria-orientation="vertical"
+              aria-label={`Resize ${def.label || "thumbnail"} column`}
+              onPointerDown={(e) => startResize(e, def)}
+              className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-primary/40"
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+interface MediaTableRowProps {
+  item: MediaItem;
+  template: string;
+  onClick: () => void;
+  isHiddenPage?: boolean;
+  blurMedia?: boolean;
+  selectable?: boolean;
+  selected?: boolean;
+  onSelectToggle?: (checked: boolean) => void;
+}
+
+export function MediaTableRow({
+  item,
+  template,
+  onClick,
+  isHiddenPage = false,
+  blurMedia = false,
+  selectable = false,
+  selected = false,
+  onSelectToggle,
+}: MediaTableRowProps) {
+  const { updateItem, updateHiddenItem } = useMediaStore();
+  const [tagsDraft, setTagsDraft] = useState<string | null>(null);
+  const [thumbnailFailed, setThumbnailFailed] = useState(false);
+  // Escape unmounts the input, which can still fire a blur
+  const cancelled = useRef(false);
+
+  const thumbnailUrl =
+    item.format === "image"
+      ? item.url
+      : item.format === "website"
+        ? undefined
+        : item.thumbnail;
+
+  const saveTags = async () => {
+    if (tagsDraft === null || cancelled.current) return;
+    const tags = Array.from(new Set(parseTags(tagsDraft)));
+    setTagsDraft(null);
+    if (tags.length === 0) {
+      toast.error("Error", { description: "At least one tag is required" });
+      return;
+    }
+    if (tags.join(",") === item.tags.join(",")) return;
+    try {
+      if (isHiddenPage) {
+        await updateHiddenItem(item.id, { tags });
+      } else {
+        await updateItem(item.id, { tags });
+      }
+      toast.success("Tags updated", {
+        description: item.name,
+        action: undoAction(),
+      });
+    } catch {
+      toast.error("Error", { description: "Failed to update tags" });
+    }
+  };
+
+  return (
+    <div
+      role="row"
+      onClick={onClick}
+      className={cn(
+        "grid items-center border-b border-border/50 text-sm cursor-pointer hover:bg-muted/40 transition-colors",
+        selected && "bg-primary/10"
+      )}
+      style={{ gridTemplateColumns: template }}
+    >
+      {selectable && (
+        <div
+          role="cell"
+          className="flex justify-center"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <Checkbox
+            checked={selected}
+            onCheckedChange={(checked) => onSelectToggle?.(checked === true)}
+            aria-label={`Select ${item.name}`}
+          />
+        </div>
+      )}
+      <div role="cell" className="px-3 py-2">
+        {thumbnailUrl && !thumbnailFailed ? (
+          <img
+            src={thumbnailUrl}
+            alt=""
+            loading="lazy"
+            onError={() => setThumbnailFailed(true)}
+            className={cn(
+              "h-10 w-10 rounded object-cover",
+              blurMedia && "filter blur-sm"
+            )}
+          />
+        ) : (
+          <div className="flex h-10 w-10 items-center justify-center rounded bg-muted text-xs uppercase text-muted-foreground">
+            {item.format.slice(0, 3)}
+          </div>
+        )}
+      </div>
+      <div role="cell" className="truncate px-3 py-2 font-medium">
+        {item.name}
+      </div>
+      <div role="cell" className="truncate px-3 py-2 text-muted-foreground">
+        {hostnameOf(item.url)}
+      </div>
+      <div role="cell" className="px-3 py-2">
+        <Badge variant="outline">{item.format}</Badge>
+      </div>
+      <div
+        role="cell"
+        className="px-3 py-2"
+        onClick={(e) => {
+          e.stopPropagation();
+          if (tagsDraft !== null) return;
+          cancelled.current = false;
+          setTagsDraft(item.tags.join(", "));
+        }}
+        title="Click to edit tags"
+      >
+        {tagsDraft !== null ? (
+          <Input
+            autoFocus
+            value={tagsDraft}
+            onChange={(e) => setTagsDraft(e.target.value)}
+            onBlur={saveTags}
+            onKeyDown={(e) => {
+              e.stopPropagation();
+              if (e.key === "Enter") e.currentTarget.blur();
+              if (e.key === "Escape") {
+                cancelled.current = true;
+                setTagsDraft(null);
+              }
+            }}
+            className="h-8 text-xs"
+            aria-label="Tags (comma-separated)"
+          />
+        ) : (
+          <div className="flex gap-1 overflow-hidden">
+            {item.tags.map((tag) => (
+              <Badge key={tag} variant="secondary" className="shrink-0">
+                {tag}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+      <div role="cell" className="px-3 py-2 text-muted-foreground">
+        {new Date(item.createdAt).toLocaleDateString()}
+      </div>
+      <div role="cell" className="truncate px-3 py-2 text-muted-foreground">
+        {item.notes?.split("\n")[0]}
+      </div>
+    </div>
+  );
+}
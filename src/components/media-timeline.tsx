@@ -0,0 +1,221 @@
+import type React from "react";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { MediaItem } from "@/hooks/use-media-store";
+import { VirtualRows } from "./virtual-rows";
+import { groupItems } from "@/lib/media";
+import { cn } from "@/lib/utils";
+
+interface MediaTimelineProps {
+  items: MediaItem[];
+  columns: number;
+  estimateSize: number; // px per day
+  oldestFirst?: boolean;
+  renderCard: (item: MediaItem) => React.ReactNode;
+  onEndReached?: () => void;
+}
+
+// Month headers are a fixed height so day headers can stick right below them
+const MONTH_HEADER_HEIGHT = 44;
+
+// Height of the page's own sticky header, which the timeline headers sit under
+function usePageHeaderHeight() {
+  const [height, setHeight] = useState(0);
+  useEffect(() => {
+    const header = document.querySelector<HTMLElement>("[data-page-header]");
+    if (!header) return;
+    const observer = new ResizeObserver(() => setHeight(header.offsetHeight));
+    observer.observe(header);
+    return () => observer.disconnect();
+  }, []);
+  return height;
+}
+
+export function MediaTimeline({
+  items,
+  columns,
+  estimateSize,
+  oldestFirst = false,
+  renderCard,
+  onEndReached,
+}: MediaTimelineProps) {
+  const headerHeight = usePageHeaderHeight();
+  const monthRefs = useRef(new Map<string, HTMLElement>());
+  const [activeMonth, setActiveMonth] = useState<string | null>(null);
+
+  const months = useMemo(() => {
+    const byDate = [...items].sort((a, b) =>
+      oldestFirst ? a.createdAt - b.createdAt : b.createdAt - a.createdAt
+    );
+    return groupItems(byDate, "month").map((month) => ({
+      ...month,
+      year: new Date(month.items[0].createdAt).getFullYear(),
+      short: new Date(month.items[0].createdAt).toLocaleDateString(undefined, {
+        month: "short",
+        year: "2-digit",
+      }),
+      days: groupItems(month.items, "day"),
+    }));
+  }, [items, oldestFirst]);
+
+  // The scrubber follows whichever month header is currently stuck
+  useEffect(() => {
+    let frame = 0;
+    const onScroll = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        let current: string | null = null;
+        for (const month of months) {
+          const el = monthRefs.current.get(month.key);
+          if (el && el.getBoundingClientRect().top <= headerHeight + 1) {
+            current = month.key;
+          }
+        }
+        setActiveMonth(current ?? months[0]?.key ?? null);
+      });
+    };
+    onScroll();
+    window.addEventListener("scroll", onScroll, { passive: true });
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener("scroll", onScroll);
+    };
+  }, [months, headerHeight]);
+
+  const jumpTo = (key: string) => {
+    const el = monthRefs.current.get(key);
+    if (!el) return;
+    window.scrollTo({
+      top: el.getBoundingClientRect().top + window.scrollY - headerHeight,
+    });
+  };
+
+  // Dragging along the scrubber jumps through the months under the pointer
+  const scrub = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = (e.clientY - rect.top) / rect.height;
+    const index = Math.min(
+      months.length - 1,
+      Math.max(0, Math.floor(ratio * months.length))
+    );
+    const month = months[index];
+    if (month && month.key !== activeMonth) jumpTo(month.key);
+  };
+
+  return (
+    <div className="relative pr-16">
+      {months.map((month, m) => (
+        <section
+          key={month.key}
+          ref={(el) => {
+            if (el) monthRefs.current.set(month.key, el);
+            else monthRefs.current.delete(month.key);
+          }}
+          aria-label={month.label}
+        >
+          <h2
+            className="sticky z-30 flex items-center bg-background/95 backdrop-blur text-lg font-semibold"
+            style={{ top: headerHeight, height: MONTH_HEADER_HEIGHT }}
+          >
+            {month.label}
+            <span className="ml-2 text-sm font-normal text-muted-foreground">
+              {month.items.length}
+            </span>
+          </h2>
+          <VirtualRows
+            count={month.days.length}
+            estimateSize={estimateSize}
+            gap={0}
+            renderRow={(i) => {
+              const day = month.days[i];
+              return (
+                <div className="relative pl-8 pb-8">
+                  {/* The date axis */}
+                  <span className="absolute left-[7px] top-0 bottom-0 w-px bg-border" />
+                  <h3
+                    className="sticky z-20 -ml-8 mb-3 flex items-center gap-3 bg-background/95 backdrop-blur py-1 text-sm font-medium"
+                    style={{ top: headerHeight + MONTH_HEADER_HEIGHT }}
+                  >
+                    <span className="h-[15px] w-[15px] rounded-full border-2 border-primary bg-background" />
+                    {day.label}
+                    <span className="text-xs font-normal text-muted-foreground">
+                      {day.items.length}
+                    </span>
+                  </h3>
+                  <div
+                    className="grid gap-4"
+                    style={{
+                      gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+                    }}
+                  >
+                    {day.items.map(renderCard)}
+                  </div>
+                </div>
+              );
+            }}
+            onEndReached={m === months.length - 1 ? onEndReached : undefined}
+          />
+        </section>
+      ))}
+
+      {months.length > 1 && (
+        <div
+          role="slider"
+          aria-label="Jump to month"
+          aria-valuemin={0}
+          aria-valuemax={months.length - 1}
+          aria-valuenow={Math.max(
+            0,
+            months.findIndex((month) => month.key === activeMonth)
+          )}
+          aria-valuetext={
+            months.find((month) => month.key === activeMonth)?.label
+          }
+          tabIndex={0}
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            scrub(e);
+          }}
+          onPointerMove={(e) => {
+            if (e.currentTarget.hasPointerCapture(e.pointerId)) scrub(e);
+          }}
+          onKeyDown={(e) => {
+            const step =
+              e.key === "ArrowDown" ? 1 : e.key === "ArrowUp" ? -1 : 0;
+            if (!step) return;
+            e.preventDefault();
+            const index = months.findIndex((m) => m.key === activeMonth);
+            const next = months[index + step];
+            if (next) jumpTo(next.key);
+          }}
+          className="fixed right-2 top-1/2 z-30 flex max-h-[70vh] -translate-y-1/2 cursor-ns-resize touch-none select-none flex-col justify-between rounded-full bg-muted/70 px-1 py-2 backdrop-blur outline-none focus-visible:ring-2 focus-visible:ring-primary"
+          style={{ height: `${Math.min(months.length * 24, 600)}px` }}
+        >
+          {months.map((month, i) => {
+            const active = month.key === activeMonth;
+            // Label the first month of each year, the ends and the current one
+            const labelled =
+              active ||
+              i === 0 ||
+              i === months.length - 1 ||
+              month.year !== months[i - 1].year;
+            return (
+              <span
+                key={month.key}
+                title={month.label}
+                className={cn(
+                  "block text-center text-[10px] leading-none",
+                  active
+                    ? "font-semibold text-primary"
+                    : "text-muted-foreground"
+                )}
+              >
+                {labelled ? month.short : "·"}
+              </span>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
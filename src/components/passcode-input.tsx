@@ -0,0 +1,113 @@
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import {
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSlot,
+} from "@/components/ui/input-otp";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  PASSPHRASE_MIN_LENGTH,
+  PIN_MAX_LENGTH,
+  PIN_MIN_LENGTH,
+  type VaultCredential,
+} from "@/lib/crypto";
+
+interface PasscodeInputProps {
+  credential: VaultCredential;
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit?: () => void;
+  autoFocus?: boolean;
+}
+
+// Renders the right input for the vault credential: OTP slots for a PIN,
+// a password field for a passphrase
+export function PasscodeInput({
+  credential,
+  value,
+  onChange,
+  onSubmit,
+  autoFocus,
+}: PasscodeInputProps) {
+  if (credential.kind === "passphrase") {
+    return (
+      <Input
+        type="password"
+        autoComplete="off"
+        placeholder={`Passphrase (min ${PASSPHRASE_MIN_LENGTH} characters)`}
+        value={value}
+        autoFocus={autoFocus}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") onSubmit?.();
+        }}
+      />
+    );
+  }
+
+  return (
+    <InputOTP
+      maxLength={credential.length}
+      pattern={REGEXP_ONLY_DIGITS}
+      value={value}
+      onChange={onChange}
+      autoFocus={autoFocus}
+    >
+      <InputOTPGroup>
+        {Array.from({ length: credential.length }, (_, i) => (
+          <InputOTPSlot key={i} index={i} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+interface CredentialPickerProps {
+  credential: VaultCredential;
+  onChange: (credential: VaultCredential) => void;
+}
+
+const pinLengths = Array.from(
+  { length: PIN_MAX_LENGTH - PIN_MIN_LENGTH + 1 },
+  (_, i) => PIN_MIN_LENGTH + i
+);
+
+export function CredentialPicker({
+  credential,
+  onChange,
+}: CredentialPickerProps) {
+  const value =
+    credential.kind === "pin" ? `pin-${credential.length}` : "passphrase";
+
+  return (
+    <Select
+      value={value}
+      onValueChange={(next) =>
+        onChange(
+          next === "passphrase"
+            ? { kind: "passphrase" }
+            : { kind: "pin", length: Number(next.slice(4)) }
+        )
+      }
+    >
+      <SelectTrigger className="w-48">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {pinLengths.map((length) => (
+          <SelectItem key={length} value={`pin-${length}`}>
+            {length}-digit PIN
+          </SelectItem>
+        ))}
+        <SelectItem value="passphrase">Passphrase</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+}
@@ -1,4 +1,8 @@
-import { type MediaItem, useMediaStore } from "@/hooks/use-media-store";
+import {
+  type MediaItem,
+  type MediaUpdates,
+  useMediaStore,
+} from "@/hooks/use-media-store";
 import {
   Dialog,
   DialogContent,
@@ -7,10 +11,25 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Copy, Trash2, X, FileText, Lock, LockOpen } from "lucide-react";
-import { useState } from "react";
+import {
+  Copy,
+  Trash2,
+  X,
+  FileText,
+  Lock,
+  LockOpen,
+  Pencil,
+  Heart,
+  Pin,
+} from "lucide-react";
+import { useEffect, useState } from "react";
 import { toast } from "sonner";
+import { undoAction } from "@/hooks/use-history-store";
 import { Video } from "@/components/video-preview";
+import { EditMediaDialog } from "@/components/edit-media-dialog";
+import { Markdown } from "@/components/markdown";
+import { StarRating } from "@/components/star-rating";
+import { Textarea } from "@/components/ui/textarea";
 
 interface PreviewModalProps {
   item: MediaItem;
@@ -19,12 +38,65 @@ interface PreviewModalProps {
 }
 
 export function PreviewModal({
-  item,
+  item: initialItem,
   onClose,
   isHidden = false,
 }: PreviewModalProps) {
-  const { deleteItem, hideItem, unhideItem } = useMediaStore();
+  const {
+    deleteItem,
+    hideItem,
+    unhideItem,
+    updateItem,
+    updateHiddenItem,
+    markOpened,
+  } = useMediaStore();
+  // Reflect edits made while the preview is open
+  const item =
+    useMediaStore((state) =>
+      (isHidden ? state.hiddenItems : state.items).find(
+        (i) => i.id === initialItem.id
+      )
+    ) ?? initialItem;
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [notesDraft, setNotesDraft] = useState<string | null>(null);
+  const [isSavingNotes, setIsSavingNotes] = useState(false);
+
+  // Feeds the "last opened" sort
+  useEffect(() => {
+    markOpened(initialItem.id).catch(console.error);
+  }, [initialItem.id]);
+
+  const handleUpdate = async (updates: MediaUpdates) => {
+    try {
+      if (isHidden) {
+        await updateHiddenItem(item.id, updates);
+      } else {
+        await updateItem(item.id, updates);
+      }
+    } catch {
+      toast.error("Error", { description: "Failed to update media" });
+    }
+  };
+
+  const handleSaveNotes = async () => {
+    if (notesDraft === null) return;
+    setIsSavingNotes(true);
+    try {
+      const updates = { notes: notesDraft.trim() ? notesDraft : undefined };
+      if (isHidden) {
+        await updateHiddenItem(item.id, updates);
+      } else {
+        await updateItem(item.id, updates);
+      }
+      setNotesDraft(null);
+      toast.success("Notes saved", { action: undoAction() });
+    } catch {
+      toast.error("Error", { description: "Failed to save notes" });
+    } finally {
+      setIsSavingNotes(false);
+    }
+  };
 
   const handleCopyUrl = () => {
     navigator.clipboard.writeText(item.url);
@@ -37,8 +109,9 @@ export function PreviewModal({
     setIsDeleting(true);
     try {
       await deleteItem(item.id);
-      toast.success("Deleted", {
-        description: "Media removed from your collection",
+      toast.success("Moved to Trash", {
+        description: item.name,
+        action: undoAction(),
       });
       onClose();
     } catch (error) {
@@ -56,11 +129,13 @@ export function PreviewModal({
         await unhideItem(item.id);
         toast("Restored", {
           description: "Media restored to your library",
+          action: undoAction(),
         });
       } else {
         await hideItem(item.id);
         toast("Hidden", {
           description: "Media moved to hidden vault",
+          action: undoAction(),
         });
       }
       onClose();
@@ -144,6 +219,44 @@ export function PreviewModal({
             )}
           </div>
 
+          {/* Favorite, pin and rating */}
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              variant={item.favorite ? "secondary" : "outline"}
+              size="sm"
+              className="gap-2 bg-transparent"
+              onClick={() =>
+                handleUpdate({ favorite: item.favorite ? undefined : true })
+              }
+            >
+              <Heart
+                className={`h-4 w-4 ${
+                  item.favorite ? "fill-red-500 text-red-500" : ""
+                }`}
+              />
+              {item.favorite ? "Favorited" : "Favorite"}
+            </Button>
+            <Button
+              variant={item.pinnedAt !== undefined ? "secondary" : "outline"}
+              size="sm"
+              className="gap-2 bg-transparent"
+              onClick={() =>
+                handleUpdate({
+                  pinnedAt:
+                    item.pinnedAt === undefined ? Date.now() : undefined,
+                })
+              }
+            >
+              <Pin className="h-4 w-4" />
+              {item.pinnedAt !== undefined ? "Pinned" : "Pin"}
+            </Button>
+            <StarRating
+              value={item.rating}
+              onChange={(rating) => handleUpdate({ rating })}
+              className="ml-auto"
+            />
+          </div>
+
           {/* Tags */}
           {item.tags.length > 0 && (
             <div className="space-y-2">
@@ -158,6 +271,57 @@ export function PreviewModal({
             </div>
           )}
 
+          {/* Notes */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium">Notes</p>
+              {notesDraft === null && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setNotesDraft(item.notes ?? "")}
+                >
+                  <Pencil className="mr-2 h-3.5 w-3.5" />
+                  {item.notes ? "Edit notes" : "Add notes"}
+                </Button>
+              )}
+            </div>
+            {notesDraft !== null ? (
+              <div className="space-y-2">
+                <Textarea
+                  value={notesDraft}
+                  onChange={(e) => setNotesDraft(e.target.value)}
+                  placeholder="Why did you save this? Markdown is supported"
+                  rows={6}
+                  disabled={isSavingNotes}
+                  autoFocus
+                />
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="bg-transparent"
+                    onClick={() => setNotesDraft(null)}
+                    disabled={isSavingNotes}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={handleSaveNotes}
+                    disabled={isSavingNotes}
+                  >
+                    {isSavingNotes ? "Saving..." : "Save notes"}
+                  </Button>
+                </div>
+              </div>
+            ) : item.notes ? (
+              <Markdown source={item.notes} />
+            ) : (
+              <p className="text-sm text-muted-foreground">No notes yet</p>
+            )}
+          </div>
+
           {/* Actions */}
           <div className="flex gap-2 pt-4 flex-wrap">
             <Button
@@ -168,6 +332,14 @@ export function PreviewModal({
               <Copy className="h-4 w-4" />
               Copy URL
             </Button>
+            <Button
+              onClick={() => setIsEditing(true)}
+              variant="outline"
+              className="flex-1 gap-2 bg-transparent"
+            >
+              <Pencil className="h-4 w-4" />
+              Edit
+            </Button>
             <Button
               onClick={handleToggleHide}
               variant="outline"
@@ -196,6 +368,12 @@ export function PreviewModal({
             </Button>
           </div>
         </div>
+        <EditMediaDialog
+          item={item}
+          isOpen={isEditing}
+          onClose={() => setIsEditing(false)}
+          isHidden={isHidden}
+        />
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,49 @@
+import type React from "react";
+
+import { Fragment } from "react";
+import { isValidToken, parseQuery } from "@/lib/query";
+import { cn } from "@/lib/utils";
+
+// Colours a search query token by token. Drawn under a transparent input,
+// so it must render exactly the source text.
+export function QueryHighlight({ source }: { source: string }) {
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+
+  for (const token of parseQuery(source)) {
+    if (token.start > last) {
+      parts.push(
+        <Fragment key={`gap-${last}`}>
+          {source.slice(last, token.start)}
+        </Fragment>
+      );
+    }
+    let i = token.start;
+    const piece = (end: number, className: string) => {
+      parts.push(
+        <span key={`${token.start}-${i}`} className={className}>
+          {source.slice(i, end)}
+        </span>
+      );
+      i = end;
+    };
+
+    if (token.negated) piece(i + 1, "text-destructive");
+    if (token.field) piece(i + token.field.length + 1, "text-primary");
+    piece(
+      token.end,
+      cn(
+        token.quoted && "text-amber-600 dark:text-amber-400",
+        token.value &&
+          !isValidToken(token) &&
+          "underline decoration-wavy decoration-destructive"
+      )
+    );
+    last = token.end;
+  }
+  if (last < source.length) {
+    parts.push(<Fragment key={`gap-${last}`}>{source.slice(last)}</Fragment>);
+  }
+
+  return <Fragment>{parts}</Fragment>;
+}
@@ -0,0 +1,248 @@
+import type React from "react";
+
+import { useEffect, useState } from "react";
+import { type SmartView, useViewStore } from "@/hooks/use-view-store";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { type ViewFilters, hasFilters, sameFilters } from "@/lib/views";
+import { cn } from "@/lib/utils";
+import { Bookmark, MoreHorizontal, Plus } from "lucide-react";
+import { toast } from "sonner";
+
+// One-line summary of what a view filters on
+export function describeFilters(filters: ViewFilters): string {
+  const parts: string[] = [];
+  if (filters.query) parts.push(`"${filters.query}"`);
+  if (filters.tags.length)
+    parts.push(filters.tags.map((t) => `#${t}`).join(" "));
+  if (filters.formats.length) parts.push(filters.formats.join(", "));
+  if (filters.favoritesOnly) parts.push("favorites");
+  return parts.join(" · ") || "Everything";
+}
+
+interface ViewDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  filters: ViewFilters;
+  view?: SmartView | null; // rename this view; save a new one when absent
+}
+
+function ViewDialog({ isOpen, onClose, filters, view }: ViewDialogProps) {
+  const { views, saveView, renameView } = useViewStore();
+  const [name, setName] = useState("");
+  const [error, setError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(view?.name ?? "");
+    setError("");
+  }, [isOpen, view]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (!name.trim()) {
+      setError("Name is required");
+      return;
+    }
+    const taken = views.some(
+      (v) =>
+        v.id !== view?.id && v.name.toLowerCase() === name.trim().toLowerCase()
+    );
+    if (taken) {
+      setError("A view with this name already exists");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (view) {
+        await renameView(view.id, name);
+      } else {
+        await saveView(name, filters);
+        toast.success("View saved", { description: name.trim() });
+      }
+      onClose();
+    } catch {
+      setError("Failed to save view. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        if (!open) onClose();
+      }}
+    >
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{view ? "Rename View" : "Save View"}</DialogTitle>
+          <DialogDescription>
+            {describeFilters(view?.filters ?? filters)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="view-name">Name *</Label>
+            <Input
+              id="view-name"
+              placeholder="Favorite videos"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={isSaving}
+              autoFocus
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              className="bg-transparent"
+              onClick={onClose}
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface SmartViewsSidebarProps {
+  filters: ViewFilters; // the page's current filters
+  onApply: (filters: ViewFilters) => void;
+  className?: string;
+}
+
+export function SmartViewsSidebar({
+  filters,
+  onApply,
+  className,
+}: SmartViewsSidebarProps) {
+  const { views, deleteView } = useViewStore();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [renaming, setRenaming] = useState<SmartView | null>(null);
+
+  const active = views.find((v) => sameFilters(v.filters, filters));
+
+  const handleDelete = async (view: SmartView) => {
+    try {
+      await deleteView(view.id);
+      toast.success("View deleted", { description: view.name });
+    } catch {
+      toast.error("Error", { description: "Failed to delete view" });
+    }
+  };
+
+  return (
+    <aside className={cn("space-y-2", className)} aria-label="Smart views">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-muted-foreground">
+          Smart Views
+        </h2>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          title="Save current filters as a view"
+          disabled={!hasFilters(filters) || !!active}
+          onClick={() => {
+            setRenaming(null);
+            setDialogOpen(true);
+          }}
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {views.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Filter the library, then save the filters here to come back to them
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {views.map((view) => (
+            <li key={view.id} className="group flex items-center gap-1">
+              <button
+                type="button"
+                onClick={() => onApply(view.filters)}
+                title={describeFilters(view.filters)}
+                aria-current={view.id === active?.id ? "true" : undefined}
+                className={cn(
+                  "flex min-w-0 flex-1 items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted",
+                  view.id === active?.id && "bg-muted font-medium"
+                )}
+              >
+                <Bookmark className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                <span className="truncate">{view.name}</span>
+              </button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 shrink-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100"
+                    aria-label={`Options for ${view.name}`}
+                  >
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem
+                    onClick={() => {
+                      setRenaming(view);
+                      setDialogOpen(true);
+                    }}
+                  >
+                    Rename
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    className="text-destructive"
+                    onClick={() => handleDelete(view)}
+                  >
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <ViewDialog
+        isOpen={dialogOpen}
+        onClose={() => setDialogOpen(false)}
+        filters={filters}
+        view={renaming}
+      />
+    </aside>
+  );
+}
@@ -0,0 +1,40 @@
+import { useLayoutStore, type SortKey } from "@/hooks/use-layout-store";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowUpDown } from "lucide-react";
+
+const sorts: { key: SortKey; label: string }[] = [
+  { key: "newest", label: "Newest" },
+  { key: "oldest", label: "Oldest" },
+  { key: "name", label: "Name A–Z" },
+  { key: "domain", label: "Domain" },
+  { key: "format", label: "Format" },
+  { key: "opened", label: "Last opened" },
+  { key: "rating", label: "Rating" },
+  { key: "manual", label: "Manual" },
+];
+
+export function SortSwitcher() {
+  const { sortBy, setSortBy } = useLayoutStore();
+
+  return (
+    <Select value={sortBy} onValueChange={(value: SortKey) => setSortBy(value)}>
+      <SelectTrigger className="w-full sm:w-40 gap-2" title="Sort by">
+        <ArrowUpDown className="h-4 w-4 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {sorts.map(({ key, label }) => (
+          <SelectItem key={key} value={key}>
+            {label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
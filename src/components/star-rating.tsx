@@ -0,0 +1,46 @@
+import { Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface StarRatingProps {
+  value?: number;
+  // Omit for a read-only display. Picking the current value clears it.
+  onChange?: (rating: number | undefined) => void;
+  className?: string;
+}
+
+export function StarRating({ value, onChange, className }: StarRatingProps) {
+  return (
+    <div
+      className={cn("flex items-center gap-0.5", className)}
+      aria-label={value ? `${value} of 5 stars` : "Not rated"}
+    >
+      {[1, 2, 3, 4, 5].map((star) => {
+        const icon = (
+          <Star
+            className={cn(
+              "h-4 w-4",
+              value && star <= value
+                ? "fill-amber-400 text-amber-400"
+                : "text-muted-foreground"
+            )}
+          />
+        );
+        if (!onChange) return <span key={star}>{icon}</span>;
+        return (
+          <button
+            key={star}
+            type="button"
+            title={`${star} star${star > 1 ? "s" : ""}`}
+            onClick={(e) => {
+              e.stopPropagation();
+              onChange(star === value ? undefined : star);
+            }}
+            className="rounded p-0.5 hover:bg-muted transition-colors"
+          >
+            {icon}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
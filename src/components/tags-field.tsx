@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { Textarea } from "@/components/ui/textarea";
+
+interface TagsFieldProps {
+  id: string;
+  value: string; // comma-separated
+  onChange: (value: string) => void;
+  allTags: string[]; // suggestion source
+  disabled?: boolean;
+}
+
+// Comma-separated tag input that suggests existing tags for the one being typed
+export function TagsField({
+  id,
+  value,
+  onChange,
+  allTags,
+  disabled,
+}: TagsFieldProps) {
+  const [suggestedTags, setSuggestedTags] = useState<string[]>([]);
+
+  const handleChange = (next: string) => {
+    onChange(next);
+
+    // Get the last tag being typed
+    const tags = next.split(",");
+    const lastTag = tags[tags.length - 1].trim().toLowerCase();
+
+    if (lastTag.length > 0) {
+      // Filter existing tags that match the current input
+      const matches = allTags.filter(
+        (tag) =>
+          tag.toLowerCase().startsWith(lastTag) &&
+          !tags
+            .slice(0, -1)
+            .map((t) => t.trim().toLowerCase())
+            .includes(tag.toLowerCase())
+      );
+      setSuggestedTags(matches);
+    } else {
+      setSuggestedTags([]);
+    }
+  };
+
+  const insertSuggestedTag = (tag: string) => {
+    const tags = value.split(",");
+    tags[tags.length - 1] = tag;
+    onChange(tags.join(", ") + ", ");
+    setSuggestedTags([]);
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        id={id}
+        placeholder="design, inspiration, ui"
+        value={value}
+        onChange={(e) => handleChange(e.target.value)}
+        disabled={disabled}
+        rows={3}
+      />
+      {suggestedTags.length > 0 && (
+        <div className="absolute top-full left-0 right-0 mt-1 bg-card border border-border rounded-md shadow-lg z-10 max-h-40 overflow-y-auto">
+          {suggestedTags.map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => insertSuggestedTag(tag)}
+              className="w-full text-left px-3 py-2 hover:bg-primary/10 transition-colors text-sm"
+            >
+              {tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Splits the field value into trimmed, non-empty tags
+export function parseTags(value: string): string[] {
+  return value
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
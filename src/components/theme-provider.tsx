@@ -2,6 +2,17 @@ import type React from "react";
 
 import { useEffect, useState } from "react";
 
+declare global {
+  interface Window {
+    __toggleTheme?: () => void;
+  }
+}
+
+// Flips the theme from outside the provider (e.g. the command palette)
+export function toggleTheme() {
+  window.__toggleTheme?.();
+}
+
 export function ThemeProvider({ children }: { children: React.ReactNode }) {
   const [mounted, setMounted] = useState(false);
   const [theme, setTheme] = useState<"light" | "dark">("light");
@@ -37,7 +48,7 @@ export function ThemeProvider({ children }: { children: React.ReactNode }) {
 
   // Expose theme toggle globally
   useEffect(() => {
-    (window as any).__toggleTheme = toggleTheme;
+    window.__toggleTheme = toggleTheme;
   }, [theme]);
 
   if (!mounted) return <>{children}</>;
@@ -0,0 +1,50 @@
+import type React from "react";
+
+import { useEffect } from "react";
+import { useWindowVirtualizer } from "@/hooks/use-window-virtualizer";
+
+interface VirtualRowsProps {
+  count: number;
+  estimateSize: number;
+  gap: number;
+  renderRow: (index: number) => React.ReactNode;
+  onEndReached?: () => void;
+}
+
+// Mounts only the rows near the viewport, so offscreen cards (and their
+// iframe / video embeds) are not in the DOM
+export function VirtualRows({
+  count,
+  estimateSize,
+  gap,
+  renderRow,
+  onEndReached,
+}: VirtualRowsProps) {
+  const { containerRef, measureRow, start, end, before, after } =
+    useWindowVirtualizer({ count, estimateSize });
+
+  useEffect(() => {
+    if (count > 0 && end >= count) onEndReached?.();
+  }, [end, count, onEndReached]);
+
+  return (
+    <div
+      ref={containerRef}
+      style={{ paddingTop: before, paddingBottom: after }}
+    >
+      {Array.from({ length: end - start }, (_, k) => {
+        const index = start + k;
+        return (
+          <div
+            key={index}
+            data-index={index}
+            ref={measureRow}
+            style={{ paddingBottom: gap }}
+          >
+            {renderRow(index)}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { useMediaStore } from "@/hooks/use-media-store";
+import type { ImportMode } from "@/lib/backup";
+import { BOARD_STORE, getAll, write } from "@/lib/db";
+import { generateId } from "@/lib/media";
+import { broadcast, onBroadcast } from "@/lib/sync";
+
+export interface Board {
+  id: string;
+  name: string;
+  description: string;
+  cover?: string; // image URL; falls back to the first image in the board
+  sortOrder: number; // position in the board switcher
+  createdAt: number;
+}
+
+export type BoardInput = Pick<Board, "name" | "description" | "cover">;
+
+type BoardStore = {
+  boards: Board[]; // by sortOrder
+  activeBoardId: string | null; // null shows the whole library
+  // actions
+  createBoard: (input: BoardInput) => Promise<Board>;
+  updateBoard: (id: string, updates: Partial<BoardInput>) => Promise<void>;
+  deleteBoard: (id: string) => Promise<void>;
+  // Swaps the board with its neighbour before (-1) or after (1) it
+  moveBoard: (id: string, offset: -1 | 1) => Promise<void>;
+  setActiveBoard: (id: string | null) => void;
+  // Adds boards from a backup. Returns backup board id -> local board id,
+  // for remapping the membership of imported items
+  importBoards: (
+    incoming: Board[],
+    mode: ImportMode
+  ) => Promise<Map<string, string>>;
+};
+
+const bySortOrder = (a: Board, b: Board) => a.sortOrder - b.sortOrder;
+
+async function loadBoards(): Promise<Board[]> {
+  const boards = await getAll<Board>(BOARD_STORE);
+  return boards.sort(bySortOrder);
+}
+
+function putBoards(boards: Board[]) {
+  return write(BOARD_STORE, (tx) => {
+    const store = tx.objectStore(BOARD_STORE);
+    for (const board of boards) store.put(board);
+  });
+}
+
+let initialized = false;
+
+export const useBoardStore = create<BoardStore>()(
+  persist(
+    (set, get) => {
+      if (typeof window !== "undefined" && !initialized) {
+        initialized = true;
+        loadBoards()
+          .then((boards) => set({ boards }))
+          .catch(() => {});
+      }
+
+      return {
+        boards: [],
+        activeBoardId: null,
+
+        createBoard: async (input) => {
+          const boards = get().boards;
+          const board: Board = {
+            id: generateId(),
+            name: input.name.trim(),
+            description: input.description.trim(),
+            cover: input.cover?.trim() || undefined,
+            sortOrder: boards.length
+              ? boards[boards.length - 1].sortOrder + 1
+              : 0,
+            createdAt: Date.now(),
+          };
+          await putBoards([board]);
+          set({ boards: [...get().boards, board] });
+          broadcast({ type: "boards-changed" });
+          return board;
+        },
+
+        updateBoard: async (id, updates) => {
+          const target = get().boards.find((b) => b.id === id);
+          if (!target) return;
+          const updated: Board = {
+            ...target,
+            ...updates,
+            name: (updates.name ?? target.name).trim(),
+            description: (updates.description ?? target.description).trim(),
+            cover:
+              "cover" in updates
+                ? updates.cover?.trim() || undefined
+                : target.cover,
+          };
+          await putBoards([updated]);
+          set({ boards: get().boards.map((b) => (b.id === id ? updated : b)) });
+          broadcast({ type: "boards-changed" });
+        },
+
+        deleteBoard: async (id) => {
+          await write(BOARD_STORE, (tx) =>
+            tx.objectStore(BOARD_STORE).delete(id)
+          );
+          set({
+            boards: get().boards.filter((b) => b.id !== id),
+            activeBoardId:
+              get().activeBoardId === id ? null : get().activeBoardId,
+          });
+          await useMediaStore.getState().detachBoards([id]);
+          broadcast({ type: "boards-changed" });
+        },
+
+        moveBoard: async (id, offset) => {
+          const boards = get().boards;
+          const index = boards.findIndex((b) => b.id === id);
+          const other = boards[index + offset];
+          if (index === -1 || !other) return;
+
+          const current = boards[index];
+          const swapped = [
+            { ...current, sortOrder: other.sortOrder },
+            { ...other, sortOrder: current.sortOrder },
+          ];
+          await putBoards(swapped);
+          const byId = new Map(swapped.map((b) => [b.id, b]));
+          set({
+            boards: boards.map((b) => byId.get(b.id) ?? b).sort(bySortOrder),
+          });
+          broadcast({ type: "boards-changed" });
+        },
+
+        setActiveBoard: (id) => set({ activeBoardId: id }),
+
+        importBoards: async (incoming, mode) => {
+          const idMap = new Map<string, string>();
+          const existing = mode === "merge" ? get().boards : [];
+          const byId = new Map(existing.map((b) => [b.id, b]));
+          const byName = new Map(
+            existing.map((b) => [b.name.toLowerCase(), b])
+          );
+
+          // Same board (by id, then by name) keeps the local copy
+          let nextOrder = existing.length
+            ? existing[existing.length - 1].sortOrder + 1
+            : 0;
+          const toAdd: Board[] = [];
+          for (const board of [...incoming].sort(bySortOrder)) {
+            const match =
+              byId.get(board.id) ?? byName.get(board.name.toLowerCase());
+            if (match) {
+              idMap.set(board.id, match.id);
+              continue;
+            }
+            const added = { ...board, sortOrder: nextOrder++ };
+            byId.set(added.id, added);
+            byName.set(added.name.toLowerCase(), added);
+            idMap.set(board.id, added.id);
+            toAdd.push(added);
+          }
+
+          await write(BOARD_STORE, (tx) => {
+            const store = tx.objectStore(BOARD_STORE);
+            if (mode === "overwrite") store.clear();
+            for (const board of toAdd) store.put(board);
+          });
+          const previous = get().boards;
+          set({
+            boards: [...existing, ...toAdd],
+            activeBoardId: mode === "overwrite" ? null : get().activeBoardId,
+          });
+          // Items must not keep pointing at boards the overwrite removed
+          if (mode === "overwrite") {
+            const kept = new Set(idMap.values());
+            await useMediaStore
+              .getState()
+              .detachBoards(
+                previous.filter((b) => !kept.has(b.id)).map((b) => b.id)
+              );
+          }
+          broadcast({ type: "boards-changed" });
+          return idMap;
+        },
+      };
+    },
+    {
+      name: "board-store",
+      partialize: (state) => ({ activeBoardId: state.activeBoardId }),
+    }
+  )
+);
+
+if (typeof window !== "undefined") {
+  onBroadcast((message) => {
+    if (message.type !== "boards-changed") return;
+    loadBoards()
+      .then((boards) => {
+        const { activeBoardId } = useBoardStore.getState();
+        useBoardStore.setState({
+          boards,
+          // the board on screen may have been deleted elsewhere
+          activeBoardId: boards.some((b) => b.id === activeBoardId)
+            ? activeBoardId
+            : null,
+        });
+      })
+      .catch(() => {});
+  });
+}
@@ -0,0 +1,153 @@
+import { create } from "zustand";
+import { toast } from "sonner";
+
+// A reversible mutation. undo/redo call back into the stores; anything they
+// record while replaying is ignored.
+export type Command = {
+  label: string;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+};
+
+type Entry = Command & { id: number };
+
+type HistoryStore = {
+  past: Entry[]; // oldest first
+  future: Entry[]; // next redo last
+  // actions
+  record: (command: Command) => void;
+  // Records every command issued inside run as one undo step
+  batch: <T>(label: string, run: () => Promise<T>) => Promise<T>;
+  // Resolve with the label of the step walked, or null when there was none
+  undo: () => Promise<string | null>;
+  redo: () => Promise<string | null>;
+  clear: () => void;
+};
+
+const MAX_HISTORY = 100;
+
+let nextId = 1;
+let replaying = false;
+let batching: Command[] | null = null;
+
+function combine(label: string, commands: Command[]): Command {
+  return {
+    label,
+    undo: async () => {
+      for (const command of [...commands].reverse()) await command.undo();
+    },
+    redo: async () => {
+      for (const command of commands) await command.redo();
+    },
+  };
+}
+
+export const useHistoryStore = create<HistoryStore>((set, get) => ({
+  past: [],
+  future: [],
+
+  record: (command) => {
+    if (replaying) return;
+    if (batching) {
+      batching.push(command);
+      return;
+    }
+    const entry = { ...command, id: nextId++ };
+    set({ past: [...get().past, entry].slice(-MAX_HISTORY), future: [] });
+  },
+
+  batch: async (label, run) => {
+    // Nested batches fold into the outermost one
+    if (batching || replaying) return run();
+    const commands: Command[] = [];
+    batching = commands;
+    try {
+      return await run();
+    } finally {
+      batching = null;
+      if (commands.length > 0) get().record(combine(label, commands));
+    }
+  },
+
+  undo: async () => {
+    const entry = get().past.at(-1);
+    if (!entry || replaying) return null;
+    replaying = true;
+    try {
+      await entry.undo();
+    } finally {
+      replaying = false;
+    }
+    set({
+      past: get().past.filter((e) => e !== entry),
+      future: [...get().future, entry],
+    });
+    return entry.label;
+  },
+
+  redo: async () => {
+    const entry = get().future.at(-1);
+    if (!entry || replaying) return null;
+    replaying = true;
+    try {
+      await entry.redo();
+    } finally {
+      replaying = false;
+    }
+    set({
+      past: [...get().past, entry],
+      future: get().future.filter((e) => e !== entry),
+    });
+    return entry.label;
+  },
+
+  clear: () => set({ past: [], future: [] }),
+}));
+
+// Toast action that undoes the step just recorded, as long as nothing newer
+// was recorded since
+export function undoAction() {
+  const id = useHistoryStore.getState().past.at(-1)?.id;
+  return {
+    label: "Undo",
+    onClick: () => {
+      const { past, undo } = useHistoryStore.getState();
+      if (id === undefined || past.at(-1)?.id !== id) {
+        toast.info("Undo newer changes first", {
+          description: "Press Ctrl+Z to step back through history",
+        });
+        return;
+      }
+      undo().catch(() => toast.error("Error", { description: "Undo failed" }));
+    },
+  };
+}
+
+function isTextInput(target: EventTarget | null) {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable ||
+      target.tagName === "INPUT" ||
+      target.tagName === "TEXTAREA")
+  );
+}
+
+// Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their own undo
+if (typeof window !== "undefined") {
+  document.addEventListener("keydown", (e) => {
+    if (e.key.toLowerCase() !== "z" || !(e.metaKey || e.ctrlKey)) return;
+    if (isTextInput(e.target)) return;
+    e.preventDefault();
+    const { undo, redo } = useHistoryStore.getState();
+    (e.shiftKey ? redo() : undo())
+      .then((label) => {
+        if (label)
+          toast(e.shiftKey ? "Redone" : "Undone", { description: label });
+      })
+      .catch(() => {
+        toast.error("Error", {
+          description: e.shiftKey ? "Redo failed" : "Undo failed",
+        });
+      });
+  });
+}
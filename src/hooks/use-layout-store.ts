@@ -1,21 +1,58 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
+import { syncPersistedStore } from "@/lib/sync";
 
-export type LayoutType = "grid" | "overlay" | "masonry" | "large";
+export type LayoutType =
+  "grid" | "overlay" | "masonry" | "large" | "table" | "timeline";
+
+export type SortKey =
+  | "newest"
+  | "oldest"
+  | "name"
+  | "domain"
+  | "format"
+  | "opened"
+  | "rating"
+  | "manual";
+
+export type GroupKey =
+  "none" | "domain" | "tag" | "format" | "day" | "week" | "month";
+
+export type TableColumn =
+  "thumbnail" | "name" | "domain" | "format" | "tags" | "created" | "notes";
 
 interface LayoutStore {
   layout: LayoutType;
+  sortBy: SortKey;
+  groupBy: GroupKey;
+  // px widths of resized table columns
+  tableWidths: Partial<Record<TableColumn, number>>;
   setLayout: (layout: LayoutType) => void;
+  setSortBy: (sortBy: SortKey) => void;
+  setGroupBy: (groupBy: GroupKey) => void;
+  setTableWidth: (column: TableColumn, width: number) => void;
 }
 
 export const useLayoutStore = create<LayoutStore>()(
   persist(
     (set) => ({
       layout: "grid",
+      sortBy: "newest",
+      groupBy: "none",
+      tableWidths: {},
       setLayout: (layout) => set({ layout }),
+      setSortBy: (sortBy) => set({ sortBy }),
+      setGroupBy: (groupBy) => set({ groupBy }),
+      setTableWidth: (column, width) =>
+        set((state) => ({
+          tableWidths: { ...state.tableWidths, [column]: width },
+        })),
     }),
     {
       name: "layout-store",
     }
   )
 );
+
+// Layout, sort and grouping changes in another tab apply here too
+syncPersistedStore(useLayoutStore, "layout-store");
@@ -0,0 +1,29 @@
+import { useEffect, useState } from "react";
+import { useVaultStore } from "@/hooks/use-vault-store";
+
+// Seconds left in the current unlock lockout (0 when not locked out)
+export function useLockoutCountdown(): number {
+  const lockedUntil = useVaultStore((s) => s.lockedUntil);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    setNow(Date.now());
+    if (!lockedUntil || lockedUntil <= Date.now()) return;
+    const t = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= lockedUntil) clearInterval(t);
+    }, 1000);
+    return () => clearInterval(t);
+  }, [lockedUntil]);
+
+  if (!lockedUntil) return 0;
+  return Math.max(0, Math.ceil((lockedUntil - now) / 1000));
+}
+
+// 95 -> "1:35"
+export function formatCountdown(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return `${m}:${String(s).padStart(2, "0")}`;
+}
@@ -1,4 +1,45 @@
 import { create } from "zustand";
+import { toast } from "sonner";
+import {
+  importPublicKey,
+  isEncryptedRecord,
+  openRecord,
+  sealRecord,
+  type EncryptedRecord,
+  type VaultConfig,
+  type VaultKeyPair,
+} from "@/lib/crypto";
+import {
+  closeDB,
+  count,
+  fromMediaRecord,
+  get as getRecord,
+  getAll,
+  getAllKeys,
+  getMediaByBoard,
+  getMediaFacets,
+  getMediaPage,
+  getPinnedMedia,
+  getMediaUrlKeys,
+  getTrashKeysBefore,
+  HIDDEN_STORE,
+  MEDIA_STORE,
+  onVersionChange,
+  toMediaRecord,
+  TRASH_STORE,
+  type MediaPageCursor,
+  type MediaRecord,
+  VAULT_STORE,
+  write,
+} from "@/lib/db";
+import { detectFormat, normalizeMediaItem, urlKey } from "@/lib/media";
+import {
+  broadcast,
+  onBroadcast,
+  onStorageKey,
+  type SyncMessage,
+} from "@/lib/sync";
+import { type Command, useHistoryStore } from "@/hooks/use-history-store";
 
 export interface MediaItem {
   id: string;
@@ -10,74 +51,78 @@ export interface MediaItem {
   thumbnail?: string;
   createdAt: number;
   isHidden?: boolean;
+  boardIds?: string[]; // boards this item belongs to
+  notes?: string; // markdown
+  favorite?: boolean;
+  pinnedAt?: number; // set while pinned; pinned items lead the gallery
+  rating?: number; // 1-5 stars
+  lastOpenedAt?: number; // last time the preview was opened
+  position?: string; // manual sort key; compared as plain strings
 }
 
-// Shape accepted when importing from backups. 'format' is recomputed on import.
-type ImportableMedia = Partial<
+// Shape accepted by the normalization pipeline (see lib/media). 'format' is
+// always recomputed.
+export type ImportableMedia = Partial<
   Pick<
     MediaItem,
-    "id" | "url" | "type" | "name" | "tags" | "thumbnail" | "createdAt"
+    | "id"
+    | "url"
+    | "type"
+    | "name"
+    | "tags"
+    | "thumbnail"
+    | "createdAt"
+    | "boardIds"
+    | "notes"
+    | "favorite"
+    | "pinnedAt"
+    | "rating"
+    | "lastOpenedAt"
+    | "position"
   >
 >;
 
-function detectFormat(
-  url: string,
-  type: string
-): "image" | "video" | "website" | "document" | "other" {
-  const urlLower = url.toLowerCase();
-
-  // Check for image extensions
-  if (
-    urlLower.endsWith(".jpg") ||
-    urlLower.endsWith(".jpeg") ||
-    urlLower.endsWith(".png") ||
-    urlLower.endsWith(".gif") ||
-    urlLower.endsWith(".webp") ||
-    urlLower.endsWith(".svg") ||
-    urlLower.endsWith(".bmp") ||
-    urlLower.includes("image") ||
-    urlLower.includes("format=webp") ||
-    urlLower.includes("format=png")
-  ) {
-    return "image";
-  }
-
-  // Check for video extensions
-  if (
-    urlLower.endsWith(".mp4") ||
-    urlLower.endsWith(".webm") ||
-    urlLower.endsWith(".mov") ||
-    urlLower.endsWith(".avi") ||
-    urlLower.includes("youtube.com") ||
-    urlLower.includes("youtu.be") ||
-    urlLower.includes("vimeo.com") ||
-    urlLower.includes("video")
-  ) {
-    return "video";
-  }
-
-  if (urlLower.endsWith(".pdf") || urlLower.includes("pdf")) {
-    return "document";
-  }
-
-  if (urlLower.startsWith("http://") || urlLower.startsWith("https://")) {
-    return "website";
-  }
+const VAULT_SESSION_KEY = "session";
+const VAULT_REKEY_KEY = "rekey";
+const PAGE_SIZE = 120;
+const DAY_MS = 24 * 60 * 60_000;
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// What the hidden store holds: ciphertext, or a plaintext item written before
+// the vault had keys (migrated on the next unlock)
+type HiddenRecord = EncryptedRecord | MediaItem;
+
+// Trashed public items keep their record; trashed hidden items stay sealed,
+// so only the deletion time is readable while the vault is locked
+type TrashRecord =
+  | { id: string; deletedAt: number; vault: false; item: MediaItem }
+  | { id: string; deletedAt: number; vault: true; record: HiddenRecord };
+
+export type TrashEntry = {
+  item: MediaItem;
+  deletedAt: number;
+  fromVault: boolean;
+};
 
-  return "other";
-}
+export type MediaUpdates = Partial<Omit<MediaItem, "id" | "createdAt">>;
 
-const DB_NAME = "PreviewzDB";
-const STORE_NAME = "media";
-const HIDDEN_STORE_NAME = "hidden";
 type MediaStore = {
-  items: MediaItem[];
-  hiddenItems: MediaItem[];
+  items: MediaItem[]; // pages loaded so far plus pinned items, newest first
+  hasMore: boolean;
+  hiddenItems: MediaItem[]; // decrypted, only populated while unlocked
+  hiddenCount: number;
   hiddenTags: string[];
   isLoading: boolean;
   allTags: string[];
   allFormats: string[];
+  trash: TrashEntry[]; // newest first; vault entries only while unlocked
+  lockedTrashCount: number; // vault entries that need an unlock to show
+  trashRetentionDays: number | null; // null keeps trash forever
   // actions
+  // Reads the next page of the library by createdAt
+  loadMore: () => Promise<void>;
+  // Pages in the rest of the library (every sort but newest needs it all)
+  loadAll: () => Promise<void>;
   addItem: (
     item: Omit<MediaItem, "id" | "createdAt" | "format">
   ) => Promise<void>;
@@ -92,275 +137,512 @@ type MediaStore = {
   overwriteWithItems: (
     incoming: ImportableMedia[]
   ) => Promise<{ added: number }>;
+  // Bulk import into the hidden vault (sealed like any other hidden item)
+  importHiddenItems: (
+    incoming: ImportableMedia[]
+  ) => Promise<{ added: number; skipped: number }>;
+  // Moves a public or (unlocked) hidden item to the trash
   deleteItem: (id: string) => Promise<void>;
-  updateItem: (
-    id: string,
-    updates: Partial<Omit<MediaItem, "id" | "createdAt">>
+  restoreItem: (id: string) => Promise<void>;
+  // Permanently deletes one trash entry
+  purgeItem: (id: string) => Promise<void>;
+  // Permanently deletes every trash entry on screen (vault ones need unlock)
+  emptyTrash: () => Promise<void>;
+  // Moves the whole library, hidden records included, to the trash
+  trashAll: () => Promise<void>;
+  purgeExpiredTrash: () => Promise<void>;
+  setTrashRetention: (days: number | null) => void;
+  updateItem: (id: string, updates: MediaUpdates) => Promise<void>;
+  // Edits a hidden item in place; needs the vault unlocked
+  updateHiddenItem: (id: string, updates: MediaUpdates) => Promise<void>;
+  // Stamps lastOpenedAt; not an undoable edit
+  markOpened: (id: string) => Promise<void>;
+  // Sets manual sort positions on public or hidden items (undefined clears)
+  setPositions: (
+    positions: Record<string, string | undefined>
+  ) => Promise<void>;
+  // Adds (member) or removes the given public items from a board
+  setBoardMembership: (
+    ids: string[],
+    boardId: string,
+    member: boolean
   ) => Promise<void>;
+  // Drops deleted boards from every item that belonged to them: public,
+  // trashed and (while unlocked) hidden
+  detachBoards: (boardIds: string[]) => Promise<void>;
   hideItem: (id: string) => Promise<void>;
   unhideItem: (id: string) => Promise<void>;
   hideTag: (tag: string) => void;
   unhideTag: (tag: string) => void;
+  // Hidden vault key lifecycle (driven by useVaultStore)
+  setHiddenPublicKey: (publicKeyB64: string | null) => void;
+  unlockHidden: (
+    keys: VaultKeyPair,
+    rememberUntil?: number | null
+  ) => Promise<void>;
+  // Reopens the vault with remembered keys; `until` is this tab's own record
+  // of the remembered unlock, which the stored keys must match
+  restoreHiddenSession: (until: number) => Promise<boolean>;
+  lockHidden: () => void;
+  // Permanently removes all hidden items and vault session keys
+  wipeHidden: () => Promise<void>;
+  // Re-encrypts every hidden record under a new key pair in one transaction
+  // Reseals the vault under `to`, staging `config` in the same transaction
+  rekeyHidden: (
+    from: VaultKeyPair | null,
+    to: VaultKeyPair,
+    config: VaultConfig
+  ) => Promise<void>;
   closeDB: () => void;
 };
 
-// Module-level DB singleton to avoid re-opening and re-running effects
-let dbInstance: IDBDatabase | null = null;
-let initializing = false;
+let initialized = false;
 
-function openDB(): Promise<IDBDatabase> {
-  if (dbInstance) return Promise.resolve(dbInstance);
-  if (typeof window === "undefined")
-    return Promise.reject(new Error("No window"));
+// Paging position, plus facets of the whole library so tag and format
+// filters cover rows that are not loaded yet
+let pageCursor: MediaPageCursor | null = null;
+let pageLoad: Promise<void> | null = null;
+let libraryFacets: { tags: string[]; formats: string[] } = {
+  tags: [],
+  formats: [],
+};
 
-  return new Promise<IDBDatabase>((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, 2);
+// Vault keys live only in memory; the public key alone is enough to hide items
+let vaultPublicKey: Promise<CryptoKey> | null = null;
+let vaultKeys: VaultKeyPair | null = null;
 
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => {
-      dbInstance = request.result;
-      resolve(dbInstance);
-    };
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: "id" });
-      }
-      if (!db.objectStoreNames.contains(HIDDEN_STORE_NAME)) {
-        db.createObjectStore(HIDDEN_STORE_NAME, { keyPath: "id" });
+// Hidden records sealed with the vault public key when one is known; plaintext
+// otherwise (vault not configured yet)
+async function toHiddenRecord(item: MediaItem): Promise<HiddenRecord> {
+  const publicKey =
+    vaultKeys?.publicKey ?? (vaultPublicKey ? await vaultPublicKey : null);
+  return publicKey ? sealRecord(item, publicKey) : item;
+}
+
+async function openHiddenRecord(record: HiddenRecord): Promise<MediaItem> {
+  if (!isEncryptedRecord(record)) return record;
+  if (!vaultKeys) throw new Error("Hidden vault is locked");
+  return openRecord<MediaItem>(record, vaultKeys.privateKey);
+}
+
+// Public entries always; vault entries decrypted only while unlocked
+async function loadTrash(): Promise<{
+  trash: TrashEntry[];
+  lockedTrashCount: number;
+}> {
+  const records = await getAll<TrashRecord>(TRASH_STORE);
+  const readable = records.filter((r) => !r.vault || vaultKeys);
+  const trash = await Promise.all(
+    readable.map(async (r) => ({
+      item: r.vault ? await openHiddenRecord(r.record) : r.item,
+      deletedAt: r.deletedAt,
+      fromVault: r.vault,
+    }))
+  );
+  return {
+    trash: trash.sort((a, b) => b.deletedAt - a.deletedAt),
+    lockedTrashCount: records.length - readable.length,
+  };
+}
+
+function readTrashRetention(): number | null {
+  const raw =
+    typeof window !== "undefined"
+      ? localStorage.getItem("trashRetentionDays")
+      : null;
+  return raw === null
+    ? DEFAULT_TRASH_RETENTION_DAYS
+    : (JSON.parse(raw) as number | null);
+}
+
+// Reads the hidden store with the given key, without unlocking the vault;
+// legacy plaintext records are read as they are
+export async function readHiddenItems(
+  privateKey: CryptoKey | null
+): Promise<MediaItem[]> {
+  const records = await getAll<HiddenRecord>(HIDDEN_STORE);
+  const opened = await Promise.allSettled(
+    records.map((r) => {
+      if (!isEncryptedRecord(r)) return Promise.resolve(r);
+      if (!privateKey) throw new Error("Vault keys required");
+      return openRecord<MediaItem>(r, privateKey);
+    })
+  );
+  return opened
+    .flatMap((r) => (r.status === "fulfilled" ? [r.value] : []))
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+type VaultSession = { keys: VaultKeyPair; until: number };
+
+// Remembered keys must not outlive their TTL on disk
+async function deleteVaultSession(ifUntil?: number) {
+  await write(VAULT_STORE, (tx) => {
+    const store = tx.objectStore(VAULT_STORE);
+    const req = store.get(VAULT_SESSION_KEY);
+    req.onsuccess = () => {
+      const session = req.result as VaultSession | undefined;
+      if (!session) return;
+      if (ifUntil === undefined || session.until <= ifUntil) {
+        store.delete(VAULT_SESSION_KEY);
       }
     };
   });
 }
 
+let sessionExpiry: ReturnType<typeof setTimeout> | undefined;
+
+// A passcode change stages its config next to the resealed records; applies a
+// staged config (e.g. one a reload interrupted) and then drops it
+export async function settleVaultRekey(
+  apply: (config: VaultConfig) => void
+): Promise<void> {
+  const staged = await getRecord<{ config: VaultConfig }>(
+    VAULT_STORE,
+    VAULT_REKEY_KEY
+  );
+  if (!staged) return;
+  apply(staged.config);
+  await write(VAULT_STORE, (tx) =>
+    tx.objectStore(VAULT_STORE).delete(VAULT_REKEY_KEY)
+  );
+}
+
+// Decrypts the hidden store while unlocked, sealing any legacy plaintext records
+async function loadHiddenItems(): Promise<MediaItem[]> {
+  if (!vaultKeys) return [];
+  const { publicKey, privateKey } = vaultKeys;
+
+  const records = await getAll<HiddenRecord>(HIDDEN_STORE);
+
+  const legacy = records.filter((r): r is MediaItem => !isEncryptedRecord(r));
+  const [opened, migrated] = await Promise.all([
+    Promise.allSettled(
+      records
+        .filter(isEncryptedRecord)
+        .map((r) => openRecord<MediaItem>(r, privateKey))
+    ),
+    Promise.all(legacy.map((item) => sealRecord(item, publicKey))),
+  ]);
+  // A record sealed under other keys is skipped rather than failing the vault
+  const decrypted = opened.flatMap((r) =>
+    r.status === "fulfilled" ? [r.value] : []
+  );
+
+  if (migrated.length > 0) {
+    await write(HIDDEN_STORE, (tx) => {
+      const store = tx.objectStore(HIDDEN_STORE);
+      for (const record of migrated) store.put(record);
+    });
+  }
+
+  return [...decrypted, ...legacy].sort((a, b) => b.createdAt - a.createdAt);
+}
+
 async function loadFromDB(): Promise<{
   items: MediaItem[];
+  hasMore: boolean;
   hiddenItems: MediaItem[];
+  hiddenCount: number;
   hiddenTags: string[];
+  trash: TrashEntry[];
+  lockedTrashCount: number;
+  trashRetentionDays: number | null;
 }> {
-  const db = await openDB();
-  const [items, hiddenItems] = await Promise.all([
-    new Promise<MediaItem[]>((resolve, reject) => {
-      const tx = db.transaction(STORE_NAME, "readonly");
-      const store = tx.objectStore(STORE_NAME);
-      const req = store.getAll();
-      req.onsuccess = () => {
-        const result = (req.result as MediaItem[]).sort(
-          (a, b) => b.createdAt - a.createdAt
-        );
-        resolve(result);
-      };
-      req.onerror = () => reject(req.error);
-    }),
-    new Promise<MediaItem[]>((resolve, reject) => {
-      const tx = db.transaction(HIDDEN_STORE_NAME, "readonly");
-      const store = tx.objectStore(HIDDEN_STORE_NAME);
-      const req = store.getAll();
-      req.onsuccess = () => {
-        const result = (req.result as MediaItem[]).sort(
-          (a, b) => b.createdAt - a.createdAt
-        );
-        resolve(result);
-      };
-      req.onerror = () => reject(req.error);
-    }),
-  ]);
+  const [page, pinned, facets, hiddenCount, hiddenItems, trash] =
+    await Promise.all([
+      getMediaPage(null, PAGE_SIZE),
+      getPinnedMedia(),
+      getMediaFacets(),
+      count(HIDDEN_STORE),
+      loadHiddenItems(),
+      loadTrash(),
+    ]);
+  pageCursor = page.next;
+
+  // Pinned items lead the gallery even when their page is not loaded yet
+  const onPage = new Set(page.items.map((i) => i.id));
+  const items = [
+    ...page.items,
+    ...pinned.filter((i) => !onPage.has(i.id)),
+  ].sort((a, b) => b.createdAt - a.createdAt);
+  libraryFacets = facets;
 
   const tagsRaw =
     typeof window !== "undefined" ? localStorage.getItem("hiddenTags") : null;
   const hiddenTags = tagsRaw ? (JSON.parse(tagsRaw) as string[]) : [];
 
-  return { items, hiddenItems, hiddenTags };
+  return {
+    items,
+    hasMore: page.next !== null,
+    hiddenItems,
+    hiddenCount,
+    hiddenTags,
+    ...trash,
+    trashRetentionDays: readTrashRetention(),
+  };
+}
+
+// Edits keep the format in step with the URL and type
+function applyUpdates(item: MediaItem, updates: MediaUpdates): MediaItem {
+  const next = { ...item, ...updates };
+  if (updates.url !== undefined || updates.type !== undefined) {
+    next.format = detectFormat(next.url, next.type);
+  }
+  return next;
+}
+
+// The previous value of every key an update touches, undefined included, so
+// undoing puts back exactly what was there (spreading the whole old item
+// would leave keys it never had)
+function snapshotOf(item: MediaItem, updates: MediaUpdates): MediaUpdates {
+  const previous: Record<string, unknown> = {};
+  for (const key of Object.keys(updates)) {
+    previous[key] = item[key as keyof MediaItem];
+  }
+  return previous as MediaUpdates;
+}
+
+function recordHistory(command: Command) {
+  useHistoryStore.getState().record(command);
 }
 
 function computeDerived(items: MediaItem[]) {
-  const allTags = Array.from(new Set(items.flatMap((i) => i.tags))).sort();
-  const allFormats = Array.from(new Set(items.map((i) => i.format))).sort();
+  const unloaded = pageCursor ? libraryFacets : { tags: [], formats: [] };
+  const allTags = Array.from(
+    new Set([...items.flatMap((i) => i.tags), ...unloaded.tags])
+  ).sort();
+  const allFormats = Array.from(
+    new Set([...items.map((i) => i.format), ...unloaded.formats])
+  ).sort();
   return { allTags, allFormats };
 }
 
 export const useMediaStore = create<MediaStore>((set, get) => {
   // kick off async init once in the browser
-  if (typeof window !== "undefined" && !initializing && !dbInstance) {
-    initializing = true;
+  if (typeof window !== "undefined" && !initialized) {
+    initialized = true;
     loadFromDB()
-      .then(({ items, hiddenItems, hiddenTags }) => {
-        const derived = computeDerived(items);
-        set({ items, hiddenItems, hiddenTags, isLoading: false, ...derived });
+      .then((loaded) => {
+        set({ ...loaded, isLoading: false, ...computeDerived(loaded.items) });
+        return get().purgeExpiredTrash();
       })
-      .catch(() => set({ isLoading: false }))
-      .finally(() => {
-        initializing = false;
-      });
+      .catch(() => set({ isLoading: false }));
+    deleteVaultSession(Date.now()).catch(() => {});
   }
 
+  // Raw writes that undo/redo replay through
+  const putItems = async (incoming: MediaItem[]) => {
+    await write(MEDIA_STORE, (tx) => {
+      const store = tx.objectStore(MEDIA_STORE);
+      for (const item of incoming) store.put(toMediaRecord(item));
+    });
+    const ids = new Set(incoming.map((i) => i.id));
+    const items = [
+      ...incoming,
+      ...get().items.filter((i) => !ids.has(i.id)),
+    ].sort((a, b) => b.createdAt - a.createdAt);
+    set({ items, ...computeDerived(items) });
+    broadcast({ type: "media-put", items: incoming });
+  };
+
+  const removeItems = async (ids: string[]) => {
+    await write(MEDIA_STORE, (tx) => {
+      const store = tx.objectStore(MEDIA_STORE);
+      for (const id of ids) store.delete(id);
+    });
+    const drop = new Set(ids);
+    const items = get().items.filter((i) => !drop.has(i.id));
+    set({ items, ...computeDerived(items) });
+    broadcast({ type: "media-deleted", ids });
+  };
+
+  // Seals at write time, so a redo after a passcode change uses the new keys
+  const putHidden = async (incoming: MediaItem[]) => {
+    const records = await Promise.all(incoming.map(toHiddenRecord));
+    await write(HIDDEN_STORE, (tx) => {
+      const store = tx.objectStore(HIDDEN_STORE);
+      for (const record of records) store.put(record);
+    });
+    const ids = new Set(incoming.map((i) => i.id));
+    set({
+      hiddenItems: vaultKeys
+        ? [
+            ...incoming,
+            ...get().hiddenItems.filter((i) => !ids.has(i.id)),
+          ].sort((a, b) => b.createdAt - a.createdAt)
+        : get().hiddenItems,
+      hiddenCount: await count(HIDDEN_STORE),
+    });
+    broadcast({ type: "hidden-changed" });
+  };
+
+  const removeHidden = async (ids: string[]) => {
+    await write(HIDDEN_STORE, (tx) => {
+      const store = tx.objectStore(HIDDEN_STORE);
+      for (const id of ids) store.delete(id);
+    });
+    const drop = new Set(ids);
+    set({
+      hiddenItems: get().hiddenItems.filter((i) => !drop.has(i.id)),
+      hiddenCount: await count(HIDDEN_STORE),
+    });
+    broadcast({ type: "hidden-changed" });
+  };
+
+  // Moves a hidden item back to the library; never while the vault is locked
+  const moveToPublic = async (item: MediaItem) => {
+    if (!vaultKeys) throw new Error("Hidden vault is locked");
+    const unhidden: MediaItem = { ...item, isHidden: false };
+    const state = get();
+    const newItems = [
+      unhidden,
+      ...state.items.filter((i) => i.id !== item.id),
+    ].sort((a, b) => b.createdAt - a.createdAt);
+    set({
+      items: newItems,
+      hiddenItems: state.hiddenItems.filter((i) => i.id !== item.id),
+      hiddenCount: Math.max(0, state.hiddenCount - 1),
+      ...computeDerived(newItems),
+    });
+
+    await write([MEDIA_STORE, HIDDEN_STORE], (tx) => {
+      tx.objectStore(MEDIA_STORE).put(toMediaRecord(unhidden));
+      tx.objectStore(HIDDEN_STORE).delete(item.id);
+    }).catch((err) => {
+      loadFromDB()
+        .then((loaded) => {
+          set({ ...loaded, ...computeDerived(loaded.items) });
+        })
+        .catch(() => {});
+      throw err;
+    });
+    broadcast({ type: "media-put", items: [unhidden] });
+    broadcast({ type: "hidden-changed" });
+    return unhidden;
+  };
+
   return {
     items: [],
+    hasMore: false,
     hiddenItems: [],
+    hiddenCount: 0,
     hiddenTags: [],
     isLoading: true,
     allTags: [],
     allFormats: [],
+    trash: [],
+    lockedTrashCount: 0,
+    trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+
+    loadMore: () => {
+      if (pageLoad) return pageLoad;
+      if (!pageCursor) return Promise.resolve();
+
+      pageLoad = getMediaPage(pageCursor, PAGE_SIZE)
+        .then(({ items: page, next }) => {
+          pageCursor = next;
+          // Items added or imported this session may already be in memory
+          const loaded = new Set(get().items.map((i) => i.id));
+          const items = [
+            ...get().items,
+            ...page.filter((i) => !loaded.has(i.id)),
+          ].sort((a, b) => b.createdAt - a.createdAt);
+          set({ items, hasMore: next !== null, ...computeDerived(items) });
+        })
+        .finally(() => {
+          pageLoad = null;
+        });
+      return pageLoad;
+    },
+
+    loadAll: async () => {
+      while (pageCursor) await get().loadMore();
+    },
 
     addItem: async (item) => {
-      const db = await openDB();
-      const format = detectFormat(item.url, item.type);
-      const newItem: MediaItem = {
-        ...item,
-        format,
-        id: Date.now().toString(),
-        createdAt: Date.now(),
-      };
+      const newItem = normalizeMediaItem(item);
+      if (!newItem) throw new Error("Invalid media URL");
 
       // optimistic update
       const prevItems = get().items;
       const optimistic = [newItem, ...prevItems];
       set({ items: optimistic, ...computeDerived(optimistic) });
 
-      await new Promise<void>((resolve, reject) => {
-        const tx = db.transaction(STORE_NAME, "readwrite");
-        const store = tx.objectStore(STORE_NAME);
-        const req = store.add(newItem);
-        tx.oncomplete = () => resolve();
-        tx.onerror = () => reject(tx.error);
-      }).catch((err) => {
+      await write(MEDIA_STORE, (tx) =>
+        tx.objectStore(MEDIA_STORE).add(toMediaRecord(newItem))
+      ).catch((err) => {
         // rollback on failure
         const rolledBack = get().items.filter((i) => i.id !== newItem.id);
         set({ items: rolledBack, ...computeDerived(rolledBack) });
         throw err;
       });
+      broadcast({ type: "media-put", items: [newItem] });
+      recordHistory({
+        label: `Add “${newItem.name}”`,
+        undo: () => removeItems([newItem.id]),
+        redo: () => putItems([newItem]),
+      });
     },
 
     addHiddenItem: async (item) => {
-      const db = await openDB();
-      const format = detectFormat(item.url, item.type);
-      const newItem: MediaItem = {
-        ...item,
-        format,
-        id: Date.now().toString(),
-        createdAt: Date.now(),
-        isHidden: true,
-      };
+      const newItem = normalizeMediaItem(item, { isHidden: true });
+      if (!newItem) throw new Error("Invalid media URL");
+      const record = await toHiddenRecord(newItem);
 
-      // optimistic update
+      // optimistic update (the decrypted list only exists while unlocked)
       const prev = get().hiddenItems;
-      const optimistic = [newItem, ...prev];
-      set({ hiddenItems: optimistic });
-
-      await new Promise<void>((resolve, reject) => {
-        const tx = db.transaction(HIDDEN_STORE_NAME, "readwrite");
-        const store = tx.objectStore(HIDDEN_STORE_NAME);
-        store.add(newItem);
-        tx.oncomplete = () => resolve();
-        tx.onerror = () => reject(tx.error);
-      }).catch((err) => {
+      set({
+        hiddenItems: vaultKeys ? [newItem, ...prev] : prev,
+        hiddenCount: get().hiddenCount + 1,
+      });
+
+      await write(HIDDEN_STORE, (tx) =>
+        tx.objectStore(HIDDEN_STORE).add(record)
+      ).catch((err) => {
         const rolledBack = get().hiddenItems.filter((i) => i.id !== newItem.id);
-        set({ hiddenItems: rolledBack });
+        set({ hiddenItems: rolledBack, hiddenCount: get().hiddenCount - 1 });
         throw err;
       });
+      broadcast({ type: "hidden-changed" });
+      recordHistory({
+        label: "Add hidden item",
+        undo: () => removeHidden([newItem.id]),
+        redo: () => putHidden([newItem]),
+      });
     },
 
     importItems: async (incoming) => {
       if (!incoming || incoming.length === 0) return { added: 0, skipped: 0 };
-      const db = await openDB();
 
-      // Load existing items once for duplicate detection
-      const existing = await new Promise<MediaItem[]>((resolve, reject) => {
-        const tx = db.transaction(STORE_NAME, "readonly");
-        const store = tx.objectStore(STORE_NAME);
-        const req = store.getAll();
-        req.onsuccess = () => resolve(req.result as MediaItem[]);
-        req.onerror = () => reject(req.error);
-      });
-
-      const existingByUrl = new Set(
-        existing.map((i) => (i.url || "").trim().toLowerCase())
-      );
-      const existingById = new Set(existing.map((i) => i.id));
+      // Duplicate detection straight off the urlKey index and primary keys
+      const [existingByUrl, existingIds] = await Promise.all([
+        getMediaUrlKeys(),
+        getAllKeys(MEDIA_STORE),
+      ]);
+      const existingById = new Set(existingIds as string[]);
 
       const toAdd: MediaItem[] = [];
       for (const raw of incoming) {
-        // Validate URL
-        const url = typeof raw.url === "string" ? raw.url : "";
-        if (!url) continue;
-
-        const urlKey = url.trim().toLowerCase();
-        if (existingByUrl.has(urlKey)) continue; // duplicate by URL
-
-        // Normalize type
-        const typeCandidate = raw.type;
-        const type: MediaItem["type"] =
-          typeCandidate === "image" ||
-          typeCandidate === "video" ||
-          typeCandidate === "other"
-            ? typeCandidate
-            : "other";
-
-        // Compute format from URL + type
-        const format = detectFormat(url, type);
-
-        // Name fallback to hostname
-        let name: string;
-        if (typeof raw.name === "string" && raw.name.trim()) {
-          name = raw.name;
-        } else {
-          try {
-            name = new URL(url).hostname;
-          } catch {
-            name = "Untitled";
-          }
+        if (typeof raw.url === "string" && existingByUrl.has(urlKey(raw.url))) {
+          continue; // duplicate by URL
         }
-
-        // ID handling with collision avoidance
-        let id: string;
-        if (typeof raw.id === "string" && raw.id.trim()) {
-          id = raw.id;
-        } else {
-          id = Date.now().toString() + Math.random().toString(36).slice(2);
-        }
-        if (existingById.has(id)) {
-          id = Date.now().toString() + Math.random().toString(36).slice(2);
-        }
-
-        const createdAt =
-          typeof raw.createdAt === "number" ? raw.createdAt : Date.now();
-
-        const tags = Array.isArray(raw.tags)
-          ? raw.tags.filter((t): t is string => typeof t === "string")
-          : [];
-
-        const thumbnail =
-          typeof raw.thumbnail === "string" ? raw.thumbnail : undefined;
-
-        const item: MediaItem = {
-          id,
-          url,
-          type,
-          format,
-          name,
-          tags,
-          thumbnail,
-          createdAt,
-          isHidden: false,
-        };
+        const item = normalizeMediaItem(raw, { takenIds: existingById });
+        if (!item) continue;
 
         // Track duplicates to prevent re-adding within same batch
-        existingByUrl.add(urlKey);
-        existingById.add(item.id);
+        existingByUrl.add(urlKey(item.url));
         toAdd.push(item);
       }
 
       if (toAdd.length === 0) return { added: 0, skipped: incoming.length };
 
       // Single transaction for all inserts
-      await new Promise<void>((resolve, reject) => {
-        const tx = db.transaction(STORE_NAME, "readwrite");
-        const store = tx.objectStore(STORE_NAME);
+      await write(MEDIA_STORE, (tx) => {
+        const store = tx.objectStore(MEDIA_STORE);
         for (const item of toAdd) {
-          store.add(item);
+          store.add(toMediaRecord(item));
         }
-        tx.oncomplete = () => resolve();
-        tx.onerror = () => reject(tx.error);
       });
 
       // Update in-memory state
@@ -368,20 +650,21 @@ export const useMediaStore = create<MediaStore>((set, get) => {
         (a, b) => b.createdAt - a.createdAt
       );
       set({ items: next, ...computeDerived(next) });
+      broadcast({ type: "media-put", items: toAdd });
+      recordHistory({
+        label: `Import ${toAdd.length} item(s)`,
+        undo: () => removeItems(toAdd.map((i) => i.id)),
+        redo: () => putItems(toAdd),
+      });
 
       return { added: toAdd.length, skipped: incoming.length - toAdd.length };
     },
 
     overwriteWithItems: async (incoming) => {
-      const db = await openDB();
-
       // Clear both stores in a single transaction
-      await new Promise<void>((resolve, reject) => {
-        const tx = db.transaction([STORE_NAME, HIDDEN_STORE_NAME], "readwrite");
-        tx.objectStore(STORE_NAME).clear();
-        tx.objectStore(HIDDEN_STORE_NAME).clear();
-        tx.oncomplete = () => resolve();
-        tx.onerror = () => reject(tx.error);
+      await write([MEDIA_STORE, HIDDEN_STORE], (tx) => {
+        tx.objectStore(MEDIA_STORE).clear();
+        tx.objectStore(HIDDEN_STORE).clear();
       });
 
       // Also clear persisted hidden tags
@@ -389,74 +672,28 @@ export const useMediaStore = create<MediaStore>((set, get) => {
         localStorage.removeItem("hiddenTags");
       }
 
-      // Reuse importItems logic to normalize + add (no duplicates now that DB cleared)
+      // Normalize + add (no duplicates now that DB cleared)
       const result = await (async () => {
-        // compute full items from incoming (mirrors importItems without duplicate checks)
-        const toAdd: MediaItem[] = [];
-        for (const raw of incoming) {
-          const url = typeof raw.url === "string" ? raw.url : "";
-          if (!url) continue;
-
-          const typeCandidate = raw.type;
-          const type: MediaItem["type"] =
-            typeCandidate === "image" ||
-            typeCandidate === "video" ||
-            typeCandidate === "other"
-              ? typeCandidate
-              : "other";
-          const format = detectFormat(url, type);
-
-          let name: string;
-          if (typeof raw.name === "string" && raw.name.trim()) {
-            name = raw.name;
-          } else {
-            try {
-              name = new URL(url).hostname;
-            } catch {
-              name = "Untitled";
-            }
-          }
-
-          const id =
-            typeof raw.id === "string" && raw.id.trim()
-              ? raw.id
-              : Date.now().toString() + Math.random().toString(36).slice(2);
-          const createdAt =
-            typeof raw.createdAt === "number" ? raw.createdAt : Date.now();
-          const tags = Array.isArray(raw.tags)
-            ? raw.tags.filter((t): t is string => typeof t === "string")
-            : [];
-          const thumbnail =
-            typeof raw.thumbnail === "string" ? raw.thumbnail : undefined;
-
-          toAdd.push({
-            id,
-            url,
-            type,
-            format,
-            name,
-            tags,
-            thumbnail,
-            createdAt,
-            isHidden: false,
-          });
-        }
+        const takenIds = new Set<string>();
+        const toAdd = incoming
+          .map((raw) => normalizeMediaItem(raw, { takenIds }))
+          .filter((item): item is MediaItem => item !== null);
 
         if (toAdd.length === 0) return { added: 0 };
 
-        await new Promise<void>((resolve, reject) => {
-          const tx = db.transaction(STORE_NAME, "readwrite");
-          const store = tx.objectStore(STORE_NAME);
-          for (const item of toAdd) store.add(item);
-          tx.oncomplete = () => resolve();
-          tx.onerror = () => reject(tx.error);
+        await write(MEDIA_STORE, (tx) => {
+          const store = tx.objectStore(MEDIA_STORE);
+          for (const item of toAdd) store.add(toMediaRecord(item));
         });
 
         // Update memory to reflect only new items and reset hidden state
         const next = [...toAdd].sort((a, b) => b.createdAt - a.createdAt);
+        pageCursor = null; // the whole library is in memory now
         set({
           items: next,
+          hasMore: false,
           hiddenItems: [],
+          hiddenCount: 0,
           hiddenTags: [],
           ...computeDerived(next),
         });
@@ -464,119 +701,532 @@ export const useMediaStore = create<MediaStore>((set, get) => {
         return { added: toAdd.length };
       })();
 
+      // Nothing recorded before the overwrite exists any more
+      useHistoryStore.getState().clear();
+      broadcast({ type: "media-reset" });
       return result;
     },
 
+    importHiddenItems: async (incoming) => {
+      if (!incoming || incoming.length === 0) return { added: 0, skipped: 0 };
+
+      // Ids are stored in the clear, so collisions can be avoided while locked
+      const existingIds = await getAllKeys(HIDDEN_STORE);
+      const takenIds = new Set(existingIds as string[]);
+      const toAdd = incoming
+        .map((raw) => normalizeMediaItem(raw, { takenIds, isHidden: true }))
+        .filter((item): item is MediaItem => item !== null);
+      if (toAdd.length === 0) return { added: 0, skipped: incoming.length };
+
+      const records = await Promise.all(toAdd.map(toHiddenRecord));
+      await write(HIDDEN_STORE, (tx) => {
+        const store = tx.objectStore(HIDDEN_STORE);
+        for (const record of records) store.add(record);
+      });
+
+      set({
+        hiddenItems: vaultKeys
+          ? [...toAdd, ...get().hiddenItems].sort(
+              (a, b) => b.createdAt - a.createdAt
+            )
+          : get().hiddenItems,
+        hiddenCount: get().hiddenCount + toAdd.length,
+      });
+      broadcast({ type: "hidden-changed" });
+      recordHistory({
+        label: `Import ${toAdd.length} hidden item(s)`,
+        undo: () => removeHidden(toAdd.map((i) => i.id)),
+        redo: () => putHidden(toAdd),
+      });
+
+      return { added: toAdd.length, skipped: incoming.length - toAdd.length };
+    },
+
     deleteItem: async (id) => {
-      const db = await openDB();
-      const prev = get().items;
-      const updated = prev.filter((i) => i.id !== id);
-      set({ items: updated, ...computeDerived(updated) });
-
-      await new Promise<void>((resolve, reject) => {
-        const tx = db.transaction(STORE_NAME, "readwrite");
-        const store = tx.objectStore(STORE_NAME);
-        const req = store.delete(id);
-        tx.oncomplete = () => resolve();
-        tx.onerror = () => reject(tx.error);
+      const state = get();
+      const hidden = state.hiddenItems.find((i) => i.id === id);
+      const item = hidden ?? state.items.find((i) => i.id === id);
+      if (!item) return;
+      const deletedAt = Date.now();
+
+      const items = state.items.filter((i) => i.id !== id);
+      set({
+        items,
+        hiddenItems: state.hiddenItems.filter((i) => i.id !== id),
+        hiddenCount: hidden
+          ? Math.max(0, state.hiddenCount - 1)
+          : state.hiddenCount,
+        trash: [{ item, deletedAt, fromVault: !!hidden }, ...state.trash],
+        ...computeDerived(items),
+      });
+
+      const from = hidden ? HIDDEN_STORE : MEDIA_STORE;
+      await write([from, TRASH_STORE], (tx) => {
+        const trash = tx.objectStore(TRASH_STORE);
+        if (hidden) {
+          // Move the sealed record as-is so it never exists in the clear
+          const req = tx.objectStore(HIDDEN_STORE).get(id);
+          req.onsuccess = () => {
+            if (!req.result) return;
+            trash.put({ id, deletedAt, vault: true, record: req.result });
+            tx.objectStore(HIDDEN_STORE).delete(id);
+          };
+        } else {
+          trash.put({ id, deletedAt, vault: false, item });
+          tx.objectStore(MEDIA_STORE).delete(id);
+        }
       }).catch((err) => {
         // reload from DB on failure
         loadFromDB()
-          .then(({ items, hiddenItems, hiddenTags }) => {
-            set({ items, hiddenItems, hiddenTags, ...computeDerived(items) });
+          .then((loaded) => {
+            set({ ...loaded, ...computeDerived(loaded.items) });
           })
           .catch(() => {});
         throw err;
       });
+      broadcast(
+        hidden
+          ? { type: "hidden-changed" }
+          : { type: "media-deleted", ids: [id] }
+      );
+      broadcast({ type: "trash-changed" });
+      recordHistory({
+        label: `Delete “${item.name}”`,
+        undo: () => get().restoreItem(id),
+        redo: () => get().deleteItem(id),
+      });
+    },
+
+    restoreItem: async (id) => {
+      const state = get();
+      const entry = state.trash.find((e) => e.item.id === id);
+      if (!entry) return;
+
+      const trash = state.trash.filter((e) => e !== entry);
+      if (entry.fromVault) {
+        set({
+          trash,
+          hiddenItems: [entry.item, ...state.hiddenItems].sort(
+            (a, b) => b.createdAt - a.createdAt
+          ),
+          hiddenCount: state.hiddenCount + 1,
+        });
+      } else {
+        const items = [entry.item, ...state.items].sort(
+          (a, b) => b.createdAt - a.createdAt
+        );
+        set({ trash, items, ...computeDerived(items) });
+      }
+
+      await write([MEDIA_STORE, HIDDEN_STORE, TRASH_STORE], (tx) => {
+        const store = tx.objectStore(TRASH_STORE);
+        const req = store.get(id);
+        req.onsuccess = () => {
+          const record = req.result as TrashRecord | undefined;
+          if (!record) return;
+          if (record.vault) {
+            tx.objectStore(HIDDEN_STORE).put(record.record);
+          } else {
+            tx.objectStore(MEDIA_STORE).put(toMediaRecord(record.item));
+          }
+          store.delete(id);
+        };
+      }).catch((err) => {
+        loadFromDB()
+          .then((loaded) => {
+            set({ ...loaded, ...computeDerived(loaded.items) });
+          })
+          .catch(() => {});
+        throw err;
+      });
+      broadcast(
+        entry.fromVault
+          ? { type: "hidden-changed" }
+          : { type: "media-put", items: [entry.item] }
+      );
+      broadcast({ type: "trash-changed" });
+      recordHistory({
+        label: `Restore “${entry.item.name}”`,
+        undo: () => get().deleteItem(id),
+        redo: () => get().restoreItem(id),
+      });
+    },
+
+    purgeItem: async (id) => {
+      set({ trash: get().trash.filter((e) => e.item.id !== id) });
+      await write(TRASH_STORE, (tx) =>
+        tx.objectStore(TRASH_STORE).delete(id)
+      ).catch((err) => {
+        loadTrash()
+          .then((loaded) => set(loaded))
+          .catch(() => {});
+        throw err;
+      });
+      broadcast({ type: "trash-changed" });
+    },
+
+    emptyTrash: async () => {
+      const ids = get().trash.map((e) => e.item.id);
+      if (ids.length === 0) return;
+      set({ trash: [] });
+      await write(TRASH_STORE, (tx) => {
+        const store = tx.objectStore(TRASH_STORE);
+        for (const id of ids) store.delete(id);
+      }).catch((err) => {
+        loadTrash()
+          .then((loaded) => set(loaded))
+          .catch(() => {});
+        throw err;
+      });
+      broadcast({ type: "trash-changed" });
+    },
+
+    trashAll: async () => {
+      const deletedAt = Date.now();
+      // Read and move inside one transaction so nothing is lost in between
+      await write([MEDIA_STORE, HIDDEN_STORE, TRASH_STORE], (tx) => {
+        const trash = tx.objectStore(TRASH_STORE);
+        const media = tx.objectStore(MEDIA_STORE);
+        const hidden = tx.objectStore(HIDDEN_STORE);
+        const mediaReq = media.getAll();
+        mediaReq.onsuccess = () => {
+          for (const record of mediaReq.result as MediaRecord[]) {
+            const item = fromMediaRecord(record);
+            trash.put({ id: item.id, deletedAt, vault: false, item });
+          }
+          media.clear();
+        };
+        const hiddenReq = hidden.getAll();
+        hiddenReq.onsuccess = () => {
+          for (const record of hiddenReq.result as HiddenRecord[]) {
+            trash.put({ id: record.id, deletedAt, vault: true, record });
+          }
+          hidden.clear();
+        };
+      });
+
+      pageCursor = null;
+      libraryFacets = { tags: [], formats: [] };
+      set({
+        items: [],
+        hasMore: false,
+        hiddenItems: [],
+        hiddenCount: 0,
+        ...(await loadTrash()),
+        ...computeDerived([]),
+      });
+      useHistoryStore.getState().clear();
+      broadcast({ type: "media-reset" });
+      broadcast({ type: "hidden-changed" });
+      broadcast({ type: "trash-changed" });
+    },
+
+    purgeExpiredTrash: async () => {
+      const days = get().trashRetentionDays;
+      if (days === null) return;
+      const expired = await getTrashKeysBefore(Date.now() - days * DAY_MS);
+      if (expired.length === 0) return;
+
+      await write(TRASH_STORE, (tx) => {
+        const store = tx.objectStore(TRASH_STORE);
+        for (const key of expired) store.delete(key);
+      });
+      set(await loadTrash());
+      broadcast({ type: "trash-changed" });
+    },
+
+    setTrashRetention: (days) => {
+      if (typeof window !== "undefined") {
+        localStorage.setItem("trashRetentionDays", JSON.stringify(days));
+      }
+      set({ trashRetentionDays: days });
+      get()
+        .purgeExpiredTrash()
+        .catch(() => {});
     },
 
     updateItem: async (id, updates) => {
-      const db = await openDB();
       const current = get().items;
       const target = current.find((i) => i.id === id);
       if (!target) return;
 
-      const updatedItem: MediaItem = { ...target, ...updates };
+      const updatedItem = applyUpdates(target, updates);
       const next = current.map((i) => (i.id === id ? updatedItem : i));
       set({ items: next, ...computeDerived(next) });
 
-      await new Promise<void>((resolve, reject) => {
-        const tx = db.transaction(STORE_NAME, "readwrite");
-        const store = tx.objectStore(STORE_NAME);
-        const req = store.put(updatedItem);
-        tx.oncomplete = () => resolve();
-        tx.onerror = () => reject(tx.error);
-      }).catch((err) => {
+      await write(MEDIA_STORE, (tx) =>
+        tx.objectStore(MEDIA_STORE).put(toMediaRecord(updatedItem))
+      ).catch((err) => {
         loadFromDB()
-          .then(({ items, hiddenItems, hiddenTags }) => {
-            set({ items, hiddenItems, hiddenTags, ...computeDerived(items) });
+          .then((loaded) => {
+            set({ ...loaded, ...computeDerived(loaded.items) });
           })
           .catch(() => {});
         throw err;
       });
+      broadcast({ type: "media-put", items: [updatedItem] });
+      const previous = snapshotOf(target, updates);
+      recordHistory({
+        label: `Edit “${target.name}”`,
+        undo: () => get().updateItem(id, previous),
+        redo: () => get().updateItem(id, updates),
+      });
     },
 
-    hideItem: async (id) => {
-      const db = await openDB();
-      const state = get();
-      const item = state.items.find((i) => i.id === id);
-      if (!item) return;
-      const hiddenItem: MediaItem = { ...item, isHidden: true };
+    updateHiddenItem: async (id, updates) => {
+      const current = get().hiddenItems;
+      const target = current.find((i) => i.id === id);
+      if (!target) return;
 
-      const newItems = state.items.filter((i) => i.id !== id);
-      const newHidden = [hiddenItem, ...state.hiddenItems];
+      const updatedItem = applyUpdates(target, updates);
+      const record = await toHiddenRecord(updatedItem);
       set({
-        items: newItems,
-        hiddenItems: newHidden,
-        ...computeDerived(newItems),
+        hiddenItems: get().hiddenItems.map((i) =>
+          i.id === id ? updatedItem : i
+        ),
       });
 
-      await new Promise<void>((resolve, reject) => {
-        const tx = db.transaction([STORE_NAME, HIDDEN_STORE_NAME], "readwrite");
-        tx.objectStore(STORE_NAME).delete(id);
-        tx.objectStore(HIDDEN_STORE_NAME).add(hiddenItem);
-        tx.oncomplete = () => resolve();
-        tx.onerror = () => reject(tx.error);
+      await write(HIDDEN_STORE, (tx) =>
+        tx.objectStore(HIDDEN_STORE).put(record)
+      ).catch((err) => {
+        loadFromDB()
+          .then((loaded) => {
+            set({ ...loaded, ...computeDerived(loaded.items) });
+          })
+          .catch(() => {});
+        throw err;
+      });
+      broadcast({ type: "hidden-changed" });
+      const previous = snapshotOf(target, updates);
+      recordHistory({
+        label: `Edit “${target.name}”`,
+        undo: () => get().updateHiddenItem(id, previous),
+        redo: () => get().updateHiddenItem(id, updates),
+      });
+    },
+
+    markOpened: async (id) => {
+      const now = Date.now();
+      const item = get().items.find((i) => i.id === id);
+      if (item) {
+        const opened: MediaItem = { ...item, lastOpenedAt: now };
+        set({ items: get().items.map((i) => (i.id === id ? opened : i)) });
+        await write(MEDIA_STORE, (tx) =>
+          tx.objectStore(MEDIA_STORE).put(toMediaRecord(opened))
+        );
+        broadcast({ type: "media-put", items: [opened] });
+        return;
+      }
+
+      const hidden = get().hiddenItems.find((i) => i.id === id);
+      if (!hidden) return;
+      const opened: MediaItem = { ...hidden, lastOpenedAt: now };
+      const record = await toHiddenRecord(opened);
+      set({
+        hiddenItems: get().hiddenItems.map((i) => (i.id === id ? opened : i)),
+      });
+      await write(HIDDEN_STORE, (tx) =>
+        tx.objectStore(HIDDEN_STORE).put(record)
+      );
+      broadcast({ type: "hidden-changed" });
+    },
+
+    setPositions: async (positions) => {
+      const state = get();
+      const previous: Record<string, string | undefined> = {};
+      const reposition = (changed: MediaItem[]) => (item: MediaItem) => {
+        if (!(item.id in positions)) return item;
+        previous[item.id] = item.position;
+        const updated: MediaItem = { ...item, position: positions[item.id] };
+        changed.push(updated);
+        return updated;
+      };
+      const changed: MediaItem[] = [];
+      const changedHidden: MediaItem[] = [];
+      const items = state.items.map(reposition(changed));
+      const hiddenItems = state.hiddenItems.map(reposition(changedHidden));
+      if (changed.length === 0 && changedHidden.length === 0) return;
+
+      const records = await Promise.all(changedHidden.map(toHiddenRecord));
+      set({ items, hiddenItems });
+
+      await write([MEDIA_STORE, HIDDEN_STORE], (tx) => {
+        const media = tx.objectStore(MEDIA_STORE);
+        for (const item of changed) media.put(toMediaRecord(item));
+        const hidden = tx.objectStore(HIDDEN_STORE);
+        for (const record of records) hidden.put(record);
       }).catch((err) => {
-        // reload on failure
         loadFromDB()
-          .then(({ items, hiddenItems, hiddenTags }) => {
-            set({ items, hiddenItems, hiddenTags, ...computeDerived(items) });
+          .then((loaded) => {
+            set({ ...loaded, ...computeDerived(loaded.items) });
           })
           .catch(() => {});
         throw err;
       });
+      if (changed.length > 0) broadcast({ type: "media-put", items: changed });
+      if (changedHidden.length > 0) broadcast({ type: "hidden-changed" });
+      recordHistory({
+        label: "Reorder",
+        undo: () => get().setPositions(previous),
+        redo: () => get().setPositions(positions),
+      });
     },
 
-    unhideItem: async (id) => {
-      const db = await openDB();
+    setBoardMembership: async (ids, boardId, member) => {
+      const targets = new Set(ids);
+      const changed: MediaItem[] = [];
+      const next = get().items.map((item) => {
+        const current = item.boardIds ?? [];
+        if (!targets.has(item.id) || current.includes(boardId) === member) {
+          return item;
+        }
+        const updated: MediaItem = {
+          ...item,
+          boardIds: member
+            ? [...current, boardId]
+            : current.filter((b) => b !== boardId),
+        };
+        changed.push(updated);
+        return updated;
+      });
+      if (changed.length === 0) return;
+      set({ items: next });
+
+      await write(MEDIA_STORE, (tx) => {
+        const store = tx.objectStore(MEDIA_STORE);
+        for (const item of changed) store.put(toMediaRecord(item));
+      }).catch((err) => {
+        loadFromDB()
+          .then((loaded) => {
+            set({ ...loaded, ...computeDerived(loaded.items) });
+          })
+          .catch(() => {});
+        throw err;
+      });
+      broadcast({ type: "media-put", items: changed });
+      const changedIds = changed.map((i) => i.id);
+      recordHistory({
+        label: member ? "Add to board" : "Remove from board",
+        undo: () => get().setBoardMembership(changedIds, boardId, !member),
+        redo: () => get().setBoardMembership(changedIds, boardId, member),
+      });
+    },
+
+    detachBoards: async (boardIds) => {
+      if (boardIds.length === 0) return;
+      const removed = new Set(boardIds);
+      const strip = (item: MediaItem): MediaItem | null =>
+        item.boardIds?.some((b) => removed.has(b))
+          ? { ...item, boardIds: item.boardIds.filter((b) => !removed.has(b)) }
+          : null;
+      const isStripped = <T>(value: T | null): value is T => value !== null;
+
+      // Read members off the index so pages not loaded yet are covered too
+      const [members, trashRecords] = await Promise.all([
+        Promise.all(boardIds.map(getMediaByBoard)),
+        getAll<TrashRecord>(TRASH_STORE),
+      ]);
+      const stripped = [
+        ...new Map(members.flat().map((item) => [item.id, item])).values(),
+      ]
+        .map(strip)
+        .filter(isStripped);
+      // Sealed vault copies can only be rewritten while unlocked
+      const keys = vaultKeys;
+      const strippedHidden = keys
+        ? get().hiddenItems.map(strip).filter(isStripped)
+        : [];
+      const [hiddenRecords, strippedTrash] = await Promise.all([
+        Promise.all(strippedHidden.map(toHiddenRecord)),
+        Promise.all(
+          trashRecords.map(async (r): Promise<TrashRecord | null> => {
+            if (!r.vault) {
+              const item = strip(r.item);
+              return item && { ...r, item };
+            }
+            if (!keys) return null;
+            const item = strip(await openHiddenRecord(r.record));
+            return item && { ...r, record: await toHiddenRecord(item) };
+          })
+        ).then((records) => records.filter(isStripped)),
+      ]);
+      if (stripped.length + hiddenRecords.length + strippedTrash.length === 0) {
+        return;
+      }
+
+      await write([MEDIA_STORE, HIDDEN_STORE, TRASH_STORE], (tx) => {
+        const media = tx.objectStore(MEDIA_STORE);
+        for (const item of stripped) media.put(toMediaRecord(item));
+        const hidden = tx.objectStore(HIDDEN_STORE);
+        for (const record of hiddenRecords) hidden.put(record);
+        const trash = tx.objectStore(TRASH_STORE);
+        for (const record of strippedTrash) trash.put(record);
+      });
+      set({
+        items: get().items.map((item) => strip(item) ?? item),
+        hiddenItems: get().hiddenItems.map((item) => strip(item) ?? item),
+        trash: get().trash.map((entry) => {
+          const item = strip(entry.item);
+          return item ? { ...entry, item } : entry;
+        }),
+      });
+      if (stripped.length) broadcast({ type: "media-put", items: stripped });
+      if (hiddenRecords.length) broadcast({ type: "hidden-changed" });
+      if (strippedTrash.length) broadcast({ type: "trash-changed" });
+    },
+
+    hideItem: async (id) => {
       const state = get();
-      const item = state.hiddenItems.find((i) => i.id === id);
+      const item = state.items.find((i) => i.id === id);
       if (!item) return;
-      const unhidden: MediaItem = { ...item, isHidden: false };
+      const hiddenItem: MediaItem = { ...item, isHidden: true };
+      const record = await toHiddenRecord(hiddenItem);
 
-      const newHidden = state.hiddenItems.filter((i) => i.id !== id);
-      const newItems = [unhidden, ...state.items];
+      const newItems = get().items.filter((i) => i.id !== id);
+      const newHidden = vaultKeys
+        ? [hiddenItem, ...get().hiddenItems]
+        : get().hiddenItems;
       set({
         items: newItems,
         hiddenItems: newHidden,
+        hiddenCount: get().hiddenCount + 1,
         ...computeDerived(newItems),
       });
 
-      await new Promise<void>((resolve, reject) => {
-        const tx = db.transaction([STORE_NAME, HIDDEN_STORE_NAME], "readwrite");
-        tx.objectStore(STORE_NAME).add(unhidden);
-        tx.objectStore(HIDDEN_STORE_NAME).delete(id);
-        tx.oncomplete = () => resolve();
-        tx.onerror = () => reject(tx.error);
+      await write([MEDIA_STORE, HIDDEN_STORE], (tx) => {
+        tx.objectStore(MEDIA_STORE).delete(id);
+        tx.objectStore(HIDDEN_STORE).add(record);
       }).catch((err) => {
+        // reload on failure
         loadFromDB()
-          .then(({ items, hiddenItems, hiddenTags }) => {
-            set({ items, hiddenItems, hiddenTags, ...computeDerived(items) });
+          .then((loaded) => {
+            set({ ...loaded, ...computeDerived(loaded.items) });
           })
           .catch(() => {});
         throw err;
       });
+      broadcast({ type: "media-deleted", ids: [id] });
+      broadcast({ type: "hidden-changed" });
+      recordHistory({
+        label: `Hide “${item.name}”`,
+        undo: async () => {
+          await moveToPublic(item);
+        },
+        redo: () => get().hideItem(id),
+      });
+    },
+
+    unhideItem: async (id) => {
+      const item = get().hiddenItems.find((i) => i.id === id);
+      if (!item) return;
+      const unhidden = await moveToPublic(item);
+      recordHistory({
+        label: `Unhide “${item.name}”`,
+        undo: () => get().hideItem(id),
+        redo: async () => {
+          await moveToPublic(unhidden);
+        },
+      });
     },
 
     hideTag: (tag: string) => {
@@ -585,6 +1235,11 @@ export const useMediaStore = create<MediaStore>((set, get) => {
         localStorage.setItem("hiddenTags", JSON.stringify(updated));
       }
       set({ hiddenTags: updated });
+      recordHistory({
+        label: `Hide tag “${tag}”`,
+        undo: async () => get().unhideTag(tag),
+        redo: async () => get().hideTag(tag),
+      });
     },
 
     unhideTag: (tag: string) => {
@@ -593,13 +1248,247 @@ export const useMediaStore = create<MediaStore>((set, get) => {
         localStorage.setItem("hiddenTags", JSON.stringify(updated));
       }
       set({ hiddenTags: updated });
+      recordHistory({
+        label: `Show tag “${tag}”`,
+        undo: async () => get().hideTag(tag),
+        redo: async () => get().unhideTag(tag),
+      });
+    },
+
+    setHiddenPublicKey: (publicKeyB64) => {
+      vaultPublicKey = publicKeyB64 ? importPublicKey(publicKeyB64) : null;
+    },
+
+    unlockHidden: async (keys, rememberUntil = null) => {
+      vaultKeys = keys;
+      const [hiddenItems, trash] = await Promise.all([
+        loadHiddenItems(),
+        loadTrash(),
+      ]);
+      set({ hiddenItems, hiddenCount: hiddenItems.length, ...trash });
+
+      // Keep the (non-extractable) keys around for a remembered session,
+      // and drop them from disk once it ends
+      if (rememberUntil) {
+        await write(VAULT_STORE, (tx) =>
+          tx.objectStore(VAULT_STORE).put({
+            id: VAULT_SESSION_KEY,
+            keys,
+            until: rememberUntil,
+          })
+        );
+        clearTimeout(sessionExpiry);
+        sessionExpiry = setTimeout(
+          () => deleteVaultSession(rememberUntil).catch(() => {}),
+          rememberUntil - Date.now()
+        );
+      }
     },
 
-    closeDB: () => {
-      if (dbInstance) {
-        dbInstance.close();
-        dbInstance = null;
+    restoreHiddenSession: async (until) => {
+      const session = await getRecord<VaultSession>(
+        VAULT_STORE,
+        VAULT_SESSION_KEY
+      );
+      if (!session || session.until !== until || until <= Date.now()) {
+        get().lockHidden();
+        return false;
       }
+      await get().unlockHidden(session.keys);
+      return true;
+    },
+
+    lockHidden: () => {
+      vaultKeys = null;
+      // Undo entries hold decrypted hidden items and could move them out
+      useHistoryStore.getState().clear();
+      const { trash, lockedTrashCount } = get();
+      const vaultTrash = trash.filter((e) => e.fromVault).length;
+      set({
+        hiddenItems: [],
+        trash: trash.filter((e) => !e.fromVault),
+        lockedTrashCount: lockedTrashCount + vaultTrash,
+      });
+      clearTimeout(sessionExpiry);
+      deleteVaultSession().catch(() => {});
+    },
+
+    wipeHidden: async () => {
+      await write([HIDDEN_STORE, VAULT_STORE, TRASH_STORE], (tx) => {
+        tx.objectStore(HIDDEN_STORE).clear();
+        tx.objectStore(VAULT_STORE).clear();
+        // Trashed hidden items go with the vault
+        const trash = tx.objectStore(TRASH_STORE);
+        const req = trash.getAll();
+        req.onsuccess = () => {
+          for (const record of req.result as TrashRecord[]) {
+            if (record.vault) trash.delete(record.id);
+          }
+        };
+      });
+      vaultKeys = null;
+      vaultPublicKey = null;
+      set({
+        hiddenItems: [],
+        hiddenCount: 0,
+        trash: get().trash.filter((e) => !e.fromVault),
+        lockedTrashCount: 0,
+      });
+      useHistoryStore.getState().clear();
+      broadcast({ type: "hidden-changed" });
+      broadcast({ type: "trash-changed" });
     },
+
+    rekeyHidden: async (from, to, config) => {
+      const open = (r: HiddenRecord) => {
+        if (!isEncryptedRecord(r)) return Promise.resolve(r);
+        if (!from) throw new Error("Vault keys required to re-encrypt");
+        return openRecord<MediaItem>(r, from.privateKey);
+      };
+      let decrypted: MediaItem[] = [];
+      // Records hidden or trashed mid-rekey are sealed under the old key, so
+      // the swap starts over if the stores no longer match what was read
+      for (let attempt = 1; ; attempt++) {
+        const [records, trashRecords] = await Promise.all([
+          getAll<HiddenRecord>(HIDDEN_STORE),
+          getAll<TrashRecord>(TRASH_STORE),
+        ]);
+        const vaultTrash = trashRecords.filter(
+          (r): r is Extract<TrashRecord, { vault: true }> => r.vault
+        );
+        decrypted = await Promise.all(records.map(open));
+        const [resealed, resealedTrash] = await Promise.all([
+          Promise.all(decrypted.map((item) => sealRecord(item, to.publicKey))),
+          Promise.all(
+            vaultTrash.map(async (r) => ({
+              ...r,
+              record: await sealRecord(await open(r.record), to.publicKey),
+            }))
+          ),
+        ]);
+        const hiddenIds = new Set(records.map((r) => r.id));
+        const trashIds = new Set(vaultTrash.map((r) => r.id));
+
+        // Swap every record, a remembered session key and the staged config
+        // atomically so nothing stays readable under the old key pair
+        let changed = false;
+        try {
+          await write([HIDDEN_STORE, VAULT_STORE, TRASH_STORE], (tx) => {
+            const hidden = tx.objectStore(HIDDEN_STORE);
+            const trash = tx.objectStore(TRASH_STORE);
+            const hiddenReq = hidden.getAllKeys();
+            const trashReq = trash.getAll();
+            trashReq.onsuccess = () => {
+              const current = (trashReq.result as TrashRecord[])
+                .filter((r) => r.vault)
+                .map((r) => r.id);
+              changed =
+                hiddenReq.result.length !== hiddenIds.size ||
+                hiddenReq.result.some((id) => !hiddenIds.has(id as string)) ||
+                current.length !== trashIds.size ||
+                current.some((id) => !trashIds.has(id));
+              if (changed) {
+                tx.abort();
+                return;
+              }
+              for (const record of resealed) hidden.put(record);
+              for (const record of resealedTrash) trash.put(record);
+              const vault = tx.objectStore(VAULT_STORE);
+              vault.put({ id: VAULT_REKEY_KEY, config });
+              const sessionReq = vault.get(VAULT_SESSION_KEY);
+              sessionReq.onsuccess = () => {
+                if (sessionReq.result) {
+                  vault.put({ ...sessionReq.result, keys: to });
+                }
+              };
+            };
+          });
+        } catch (error) {
+          if (!changed) throw error;
+          if (attempt === 3) {
+            throw new Error("Hidden vault kept changing during re-encryption");
+          }
+          continue;
+        }
+        break;
+      }
+
+      vaultPublicKey = Promise.resolve(to.publicKey);
+      if (vaultKeys) {
+        vaultKeys = to;
+        set({
+          hiddenItems: decrypted.sort((a, b) => b.createdAt - a.createdAt),
+        });
+      }
+      set({ hiddenCount: decrypted.length });
+      // Undo entries may hold items from before the passcode change
+      useHistoryStore.getState().clear();
+      broadcast({ type: "hidden-changed" });
+      broadcast({ type: "trash-changed" });
+    },
+
+    closeDB,
   };
 });
+
+// Applies changes made in other tabs (see lib/sync)
+function applyRemoteChange(message: SyncMessage) {
+  const { getState, setState } = useMediaStore;
+  switch (message.type) {
+    case "media-put": {
+      const ids = new Set(message.items.map((i) => i.id));
+      const items = [
+        ...message.items,
+        ...getState().items.filter((i) => !ids.has(i.id)),
+      ].sort((a, b) => b.createdAt - a.createdAt);
+      setState({ items, ...computeDerived(items) });
+      break;
+    }
+    case "media-deleted": {
+      const ids = new Set(message.ids);
+      const items = getState().items.filter((i) => !ids.has(i.id));
+      setState({ items, ...computeDerived(items) });
+      break;
+    }
+    case "media-reset":
+      useHistoryStore.getState().clear();
+      loadFromDB()
+        .then((loaded) => {
+          setState({ ...loaded, ...computeDerived(loaded.items) });
+        })
+        .catch(() => {});
+      break;
+    case "hidden-changed":
+      // Re-read rather than receive: hidden plaintext never leaves a tab
+      Promise.all([count(HIDDEN_STORE), loadHiddenItems()])
+        .then(([hiddenCount, hiddenItems]) => {
+          setState({ hiddenCount, hiddenItems });
+        })
+        .catch(() => {});
+      break;
+    case "trash-changed":
+      loadTrash()
+        .then((loaded) => setState(loaded))
+        .catch(() => {});
+      break;
+  }
+}
+
+if (typeof window !== "undefined") {
+  onBroadcast(applyRemoteChange);
+  onStorageKey("hiddenTags", (value) => {
+    useMediaStore.setState({
+      hiddenTags: value ? (JSON.parse(value) as string[]) : [],
+    });
+  });
+  onStorageKey("trashRetentionDays", () => {
+    useMediaStore.setState({ trashRetentionDays: readTrashRetention() });
+  });
+  onVersionChange(() => {
+    toast.info("Previewz was updated in another tab", {
+      description: "Reload to keep working with your library",
+      duration: Infinity,
+      action: { label: "Reload", onClick: () => window.location.reload() },
+    });
+  });
+}
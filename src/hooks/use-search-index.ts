@@ -0,0 +1,66 @@
+import { useMemo, useSyncExternalStore } from "react";
+import { type MediaItem, useMediaStore } from "@/hooks/use-media-store";
+import { createSearchIndex } from "@/lib/search-index";
+
+// One index over the library and (while unlocked) the hidden vault. Store
+// updates replace item objects, so only items whose object changed are
+// re-indexed.
+const index = createSearchIndex();
+let indexed = new Map<string, MediaItem>();
+let version = 0;
+const listeners = new Set<() => void>();
+
+function sync(items: MediaItem[], hiddenItems: MediaItem[]) {
+  const next = new Map<string, MediaItem>();
+  for (const item of items) next.set(item.id, item);
+  for (const item of hiddenItems) next.set(item.id, item);
+
+  let changed = false;
+  for (const [id, item] of next) {
+    if (indexed.get(id) === item) continue;
+    index.upsert(item);
+    changed = true;
+  }
+  for (const id of indexed.keys()) {
+    if (next.has(id)) continue;
+    index.remove(id);
+    changed = true;
+  }
+  indexed = next;
+
+  if (changed) {
+    version++;
+    listeners.forEach((listener) => listener());
+  }
+}
+
+if (typeof window !== "undefined") {
+  const { items, hiddenItems } = useMediaStore.getState();
+  sync(items, hiddenItems);
+  useMediaStore.subscribe((state, prev) => {
+    if (state.items !== prev.items || state.hiddenItems !== prev.hiddenItems) {
+      sync(state.items, state.hiddenItems);
+    }
+  });
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Ranked fuzzy matches for free text (item id -> score), or null when there
+// is no text to match
+export function useFuzzySearch(text: string): Map<string, number> | null {
+  const current = useSyncExternalStore(
+    subscribe,
+    () => version,
+    () => version
+  );
+  return useMemo(
+    () => (text.trim() ? index.search(text) : null),
+    [text, current]
+  );
+}
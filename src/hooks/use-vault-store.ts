@@ -1,23 +1,120 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
-import { hashPasscode, verifyPasscode, type VaultConfig } from "@/lib/crypto";
+import {
+  createVaultKeys,
+  credentialOf,
+  DEFAULT_CREDENTIAL,
+  hashPasscode,
+  openVaultKeys,
+  verifyPasscode,
+  type VaultConfig,
+  type VaultCredential,
+  type VaultKeyPair,
+} from "@/lib/crypto";
+import { settleVaultRekey, useMediaStore } from "@/hooks/use-media-store";
+import {
+  broadcast,
+  onBroadcast,
+  syncPersistedStore,
+  type SyncMessage,
+} from "@/lib/sync";
 
 type VaultState = {
   config: VaultConfig | null;
   isUnlocked: boolean;
   unlockUntil: number | null; // epoch ms
   blurHidden: boolean;
-  attempts: number;
+  attempts: number; // consecutive failures, persisted across reloads
+  lockedUntil: number | null; // epoch ms, no verification before this
+  wipeAfterFailures: number | null; // wipe hidden vault after N failures
   rememberTTL: boolean; // if true, remember for TTL in session
   // actions
-  setupPasscode: (code: string) => Promise<void>;
+  setupPasscode: (code: string, credential?: VaultCredential) => Promise<void>;
+  // Verifies the current code, then rotates the vault to the new one
+  changePasscode: (
+    current: string,
+    next: string,
+    credential?: VaultCredential
+  ) => Promise<boolean>;
   verifyAndUnlock: (code: string, ttlMinutes?: number) => Promise<boolean>;
+  // Opens the vault keys without unlocking (e.g. for an export); null for a
+  // wrong code, which counts toward the lockout like a failed unlock
+  openKeys: (code: string) => Promise<VaultKeyPair | null>;
   lock: () => void;
   setBlurHidden: (v: boolean) => void;
   hydrateFromSession: () => void;
   setRememberTTL: (v: boolean) => void;
+  setWipeAfterFailures: (n: number | null) => void;
 };
 
+// Failures allowed before lockouts start, then 30s doubling up to an hour
+const FREE_ATTEMPTS = 5;
+const BASE_LOCKOUT_MS = 30_000;
+const MAX_LOCKOUT_MS = 60 * 60_000;
+
+export function lockoutDuration(attempts: number): number {
+  if (attempts < FREE_ATTEMPTS) return 0;
+  return Math.min(
+    BASE_LOCKOUT_MS * 2 ** (attempts - FREE_ATTEMPTS),
+    MAX_LOCKOUT_MS
+  );
+}
+
+function isLockedOut(): boolean {
+  const { lockedUntil } = useVaultStore.getState();
+  return lockedUntil !== null && lockedUntil > Date.now();
+}
+
+// Records a wrong passcode: extends the lockout, or wipes the vault once the
+// configured failure limit is reached
+async function registerFailure() {
+  const { attempts: prev, wipeAfterFailures } = useVaultStore.getState();
+  const attempts = prev + 1;
+  if (wipeAfterFailures !== null && attempts >= wipeAfterFailures) {
+    await useMediaStore.getState().wipeHidden();
+    try {
+      sessionStorage.removeItem("vaultUnlockedUntil");
+    } catch {}
+    useVaultStore.setState({
+      config: null,
+      isUnlocked: false,
+      unlockUntil: null,
+      attempts: 0,
+      lockedUntil: null,
+    });
+    broadcast({ type: "vault-locked" });
+    return;
+  }
+  const duration = lockoutDuration(attempts);
+  useVaultStore.setState({
+    attempts,
+    lockedUntil: duration > 0 ? Date.now() + duration : null,
+  });
+}
+
+// Locks this tab only; lock() also tells the other tabs
+function lockLocally() {
+  useVaultStore.setState({ isUnlocked: false, unlockUntil: null });
+  useMediaStore.getState().lockHidden();
+  try {
+    sessionStorage.removeItem("vaultUnlockedUntil");
+  } catch {}
+}
+
+// Opens the vault key pair, creating one for vaults set up before hidden items
+// were encrypted at rest
+async function ensureVaultKeys(
+  code: string,
+  config: VaultConfig,
+  save: (config: VaultConfig) => void
+): Promise<VaultKeyPair> {
+  if (config.keys) return openVaultKeys(code, config);
+  const { keys, pair } = await createVaultKeys(code, config.iterations);
+  save({ ...config, keys });
+  useMediaStore.getState().setHiddenPublicKey(keys.publicKeyB64);
+  return pair;
+}
+
 export const useVaultStore = create<VaultState>()(
   persist(
     (set, get) => ({
@@ -26,63 +123,129 @@ export const useVaultStore = create<VaultState>()(
       unlockUntil: null,
       blurHidden: true,
       attempts: 0,
+      lockedUntil: null,
+      wipeAfterFailures: null,
       rememberTTL: false,
 
-      setupPasscode: async (code: string) => {
+      setupPasscode: async (code, credential = DEFAULT_CREDENTIAL) => {
         const cfg = await hashPasscode(code);
-        set({ config: cfg });
+        const { keys } = await createVaultKeys(code, cfg.iterations);
+        set({ config: { ...cfg, credential, keys } });
+        useMediaStore.getState().setHiddenPublicKey(keys.publicKeyB64);
+      },
+
+      changePasscode: async (current, next, credential) => {
+        const { config } = get();
+        if (!config || isLockedOut()) return false;
+        const ok = await verifyPasscode(current, config);
+        if (!ok) {
+          await registerFailure();
+          return false;
+        }
+        const from = config.keys ? await openVaultKeys(current, config) : null;
+        // Fresh salt and key pair: copies of the old config cannot open new data
+        const cfg = await hashPasscode(next);
+        const { keys, pair } = await createVaultKeys(next, cfg.iterations);
+        const nextConfig: VaultConfig = {
+          ...cfg,
+          credential: credential ?? credentialOf(config),
+          keys,
+        };
+        await useMediaStore.getState().rekeyHidden(from, pair, nextConfig);
+        await settleVaultRekey((staged) =>
+          set({ config: staged, attempts: 0, lockedUntil: null })
+        );
+        // Other tabs still hold the old keys
+        broadcast({ type: "vault-locked" });
+        return true;
       },
 
       verifyAndUnlock: async (code: string, ttlMinutes = 20) => {
         const { config } = get();
-        if (!config) return false;
+        if (!config || isLockedOut()) return false;
         const ok = await verifyPasscode(code, config);
         if (ok) {
+          const keys = await ensureVaultKeys(code, config, (cfg) =>
+            set({ config: cfg })
+          );
           const remember = get().rememberTTL;
-          if (remember) {
-            const until = Date.now() + ttlMinutes * 60_000;
-            set({ isUnlocked: true, unlockUntil: until, attempts: 0 });
+          const until = remember ? Date.now() + ttlMinutes * 60_000 : null;
+          await useMediaStore.getState().unlockHidden(keys, until);
+          if (until) {
+            set({
+              isUnlocked: true,
+              unlockUntil: until,
+              attempts: 0,
+              lockedUntil: null,
+            });
             try {
               sessionStorage.setItem("vaultUnlockedUntil", String(until));
             } catch {}
           } else {
-            set({ isUnlocked: true, unlockUntil: null, attempts: 0 });
+            set({
+              isUnlocked: true,
+              unlockUntil: null,
+              attempts: 0,
+              lockedUntil: null,
+            });
           }
+          broadcast({ type: "vault-unlocked", keys, until });
         } else {
-          set({ attempts: get().attempts + 1 });
+          await registerFailure();
         }
         return ok;
       },
 
+      openKeys: async (code) => {
+        const { config } = get();
+        if (!config || isLockedOut()) return null;
+        if (!(await verifyPasscode(code, config))) {
+          await registerFailure();
+          return null;
+        }
+        const keys = await ensureVaultKeys(code, config, (cfg) =>
+          set({ config: cfg })
+        );
+        set({ attempts: 0, lockedUntil: null });
+        return keys;
+      },
+
       lock: () => {
-        set({ isUnlocked: false, unlockUntil: null });
-        try {
-          sessionStorage.removeItem("vaultUnlockedUntil");
-        } catch {}
+        lockLocally();
+        broadcast({ type: "vault-locked" });
       },
 
       setBlurHidden: (v: boolean) => set({ blurHidden: v }),
 
       setRememberTTL: (v: boolean) => set({ rememberTTL: v }),
 
+      setWipeAfterFailures: (n: number | null) => set({ wipeAfterFailures: n }),
+
       hydrateFromSession: () => {
         try {
           // Only hydrate session unlock if user opted in
           if (!get().rememberTTL) {
-            try {
-              sessionStorage.removeItem("vaultUnlockedUntil");
-            } catch {}
-            set({ isUnlocked: false, unlockUntil: null });
+            lockLocally();
             return;
           }
           const raw = sessionStorage.getItem("vaultUnlockedUntil");
           if (!raw) return;
           const until = Number(raw);
           if (Number.isFinite(until) && until > Date.now()) {
-            set({ isUnlocked: true, unlockUntil: until });
+            // The decryption keys must still be around for this session
+            useMediaStore
+              .getState()
+              .restoreHiddenSession(until)
+              .then((restored) => {
+                if (restored) {
+                  set({ isUnlocked: true, unlockUntil: until });
+                } else {
+                  lockLocally();
+                }
+              })
+              .catch(() => lockLocally());
           } else {
-            set({ isUnlocked: false, unlockUntil: null });
-            sessionStorage.removeItem("vaultUnlockedUntil");
+            lockLocally();
           }
         } catch {}
       },
@@ -93,7 +256,51 @@ export const useVaultStore = create<VaultState>()(
         config: state.config,
         blurHidden: state.blurHidden,
         rememberTTL: state.rememberTTL,
+        attempts: state.attempts,
+        lockedUntil: state.lockedUntil,
+        wipeAfterFailures: state.wipeAfterFailures,
       }),
+      onRehydrateStorage: () => (state) => {
+        // Lets the media store seal newly hidden items while locked
+        useMediaStore
+          .getState()
+          .setHiddenPublicKey(state?.config?.keys?.publicKeyB64 ?? null);
+        // A reload between resealing and saving the new config must not
+        // strand the vault under keys only the staged config can open
+        settleVaultRekey((config) => {
+          useVaultStore.setState({ config });
+          useMediaStore
+            .getState()
+            .setHiddenPublicKey(config.keys?.publicKeyB64 ?? null);
+        }).catch(() => {});
+      },
     }
   )
 );
+
+// Unlocking or locking in one tab applies to every open tab
+function applyRemoteVault(message: SyncMessage) {
+  if (message.type === "vault-locked") {
+    lockLocally();
+  } else if (message.type === "vault-unlocked") {
+    const { keys, until } = message;
+    useMediaStore
+      .getState()
+      .unlockHidden(keys)
+      .then(() => {
+        useVaultStore.setState({ isUnlocked: true, unlockUntil: until });
+        if (until) {
+          try {
+            sessionStorage.setItem("vaultUnlockedUntil", String(until));
+          } catch {}
+        }
+      })
+      .catch(() => {});
+  }
+}
+
+if (typeof window !== "undefined") {
+  onBroadcast(applyRemoteVault);
+  // Passcode, settings and failed-attempt counters are shared too
+  syncPersistedStore(useVaultStore, "vault-store");
+}
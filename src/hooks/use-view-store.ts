@@ -0,0 +1,87 @@
+import { create } from "zustand";
+import { VIEW_STORE, getAll, write } from "@/lib/db";
+import { generateId } from "@/lib/media";
+import { broadcast, onBroadcast } from "@/lib/sync";
+import type { ViewFilters } from "@/lib/views";
+
+export interface SmartView {
+  id: string;
+  name: string;
+  filters: ViewFilters;
+  createdAt: number;
+}
+
+type ViewStore = {
+  views: SmartView[]; // by name
+  saveView: (name: string, filters: ViewFilters) => Promise<SmartView>;
+  renameView: (id: string, name: string) => Promise<void>;
+  deleteView: (id: string) => Promise<void>;
+};
+
+const byName = (a: SmartView, b: SmartView) =>
+  a.name.localeCompare(b.name, undefined, { sensitivity: "base" });
+
+async function loadViews(): Promise<SmartView[]> {
+  const views = await getAll<SmartView>(VIEW_STORE);
+  return views.sort(byName);
+}
+
+function putView(view: SmartView) {
+  return write(VIEW_STORE, (tx) => tx.objectStore(VIEW_STORE).put(view));
+}
+
+let initialized = false;
+
+export const useViewStore = create<ViewStore>((set, get) => {
+  if (typeof window !== "undefined" && !initialized) {
+    initialized = true;
+    loadViews()
+      .then((views) => set({ views }))
+      .catch(() => {});
+  }
+
+  return {
+    views: [],
+
+    saveView: async (name, filters) => {
+      const view: SmartView = {
+        id: generateId(),
+        name: name.trim(),
+        filters: { ...filters, query: filters.query.trim() },
+        createdAt: Date.now(),
+      };
+      await putView(view);
+      set({ views: [...get().views, view].sort(byName) });
+      broadcast({ type: "views-changed" });
+      return view;
+    },
+
+    renameView: async (id, name) => {
+      const target = get().views.find((v) => v.id === id);
+      if (!target) return;
+      const updated = { ...target, name: name.trim() };
+      await putView(updated);
+      set({
+        views: get()
+          .views.map((v) => (v.id === id ? updated : v))
+          .sort(byName),
+      });
+      broadcast({ type: "views-changed" });
+    },
+
+    deleteView: async (id) => {
+      await write(VIEW_STORE, (tx) => tx.objectStore(VIEW_STORE).delete(id));
+      set({ views: get().views.filter((v) => v.id !== id) });
+      broadcast({ type: "views-changed" });
+    },
+  };
+});
+
+if (typeof window !== "undefined") {
+  onBroadcast((message) => {
+    if (message.type !== "views-changed") return;
+    loadViews()
+      .then((views) => useViewStore.setState({ views }))
+      .catch(() => {});
+  });
+}
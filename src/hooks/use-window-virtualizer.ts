@@ -0,0 +1,150 @@
+import {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from "react";
+
+type VirtualWindow = {
+  start: number; // first mounted row
+  end: number; // one past the last mounted row
+  before: number; // px of unmounted rows above
+  after: number; // px of unmounted rows below
+};
+
+interface WindowVirtualizerOptions {
+  count: number;
+  estimateSize: number;
+  // px beyond the viewport to keep mounted in each direction
+  overscan?: number;
+}
+
+// Virtualizes a list of variable-height rows against the page scroll. Rows
+// are measured once mounted; unmeasured rows use the estimate.
+export function useWindowVirtualizer({
+  count,
+  estimateSize,
+  overscan = 400,
+}: WindowVirtualizerOptions) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const sizes = useRef(new Map<number, number>());
+  const countRef = useRef(count);
+  countRef.current = count;
+  const [range, setRange] = useState<VirtualWindow>({
+    start: 0,
+    end: Math.min(count, 1),
+    before: 0,
+    after: 0,
+  });
+
+  const update = useCallback(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const top = el.getBoundingClientRect().top;
+    const viewTop = -top - overscan;
+    const viewBottom = -top + window.innerHeight + overscan;
+
+    let offset = 0;
+    let start = -1;
+    let end = countRef.current;
+    let before = 0;
+    for (let i = 0; i < countRef.current; i++) {
+      const size = sizes.current.get(i) ?? estimateSize;
+      if (start === -1 && offset + size >= viewTop) {
+        start = i;
+        before = offset;
+      }
+      if (offset > viewBottom) {
+        end = i;
+        break;
+      }
+      offset += size;
+    }
+    if (start === -1) {
+      start = end;
+      before = offset;
+    }
+    let after = 0;
+    for (let i = end; i < countRef.current; i++) {
+      after += sizes.current.get(i) ?? estimateSize;
+    }
+
+    setRange((prev) =>
+      prev.start === start &&
+      prev.end === end &&
+      prev.before === before &&
+      prev.after === after
+        ? prev
+        : { start, end, before, after }
+    );
+  }, [estimateSize, overscan]);
+
+  // rAF-throttled so scrolling re-renders at most once per frame
+  const frame = useRef(0);
+  const schedule = useCallback(() => {
+    if (frame.current) return;
+    frame.current = requestAnimationFrame(() => {
+      frame.current = 0;
+      update();
+    });
+  }, [update]);
+
+  useLayoutEffect(() => {
+    // Measurements past the end belong to rows that are gone
+    for (const index of sizes.current.keys()) {
+      if (index >= count) sizes.current.delete(index);
+    }
+    update();
+  }, [count, update]);
+
+  useEffect(() => {
+    window.addEventListener("scroll", schedule, { passive: true });
+    window.addEventListener("resize", schedule);
+    return () => {
+      window.removeEventListener("scroll", schedule);
+      window.removeEventListener("resize", schedule);
+      cancelAnimationFrame(frame.current);
+      frame.current = 0;
+    };
+  }, [schedule]);
+
+  // One observer for every mounted row; rows report their index via data-index
+  const scheduleRef = useRef(schedule);
+  scheduleRef.current = schedule;
+  const observer = useRef<ResizeObserver | null>(null);
+  useEffect(
+    () => () => {
+      observer.current?.disconnect();
+      observer.current = null;
+    },
+    []
+  );
+
+  // Ref callbacks run before effects, so the observer is created lazily
+  const measureRow = useCallback((el: HTMLElement | null) => {
+    if (!el) return;
+    observer.current ??= new ResizeObserver((entries) => {
+      let changed = false;
+      for (const entry of entries) {
+        const row = entry.target as HTMLElement;
+        const index = Number(row.dataset.index);
+        const size = row.offsetHeight;
+        if (index >= countRef.current) continue;
+        if (sizes.current.get(index) !== size) {
+          sizes.current.set(index, size);
+          changed = true;
+        }
+      }
+      if (changed) scheduleRef.current();
+    });
+    observer.current.observe(el);
+    return () => observer.current?.unobserve(el);
+  }, []);
+
+  // The range is recomputed only after a render with the new count, so clamp
+  // it here; a shrunk list must never render rows past its end
+  const end = Math.min(range.end, count);
+  const start = Math.min(range.start, end);
+  return { containerRef, measureRow, ...range, start, end };
+}
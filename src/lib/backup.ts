@@ -0,0 +1,227 @@
+// Backup file schema: version migrations, validation and import dry-runs
+
+import type { Board } from "@/hooks/use-board-store";
+import type { ImportableMedia, MediaItem } from "@/hooks/use-media-store";
+import {
+  isEncryptedEnvelope,
+  type EncryptedEnvelope,
+  type VaultConfig,
+} from "@/lib/crypto";
+import { checkMediaUrl, isRating, urlKey } from "@/lib/media";
+
+export const BACKUP_VERSION = "2.1";
+
+// Plaintext hidden data carried over from "1.1" backups
+export type LegacyVault = {
+  hiddenItems: unknown[];
+  vaultConfig: VaultConfig | null;
+};
+
+export type Backup = {
+  version: typeof BACKUP_VERSION;
+  exportedAt: string | null;
+  items: unknown[]; // raw rows, validated per item by planImport
+  boards: Board[];
+  vault?: EncryptedEnvelope;
+  legacyVault?: LegacyVault;
+};
+
+export type ImportMode = "merge" | "overwrite";
+
+export type RejectedItem = {
+  index: number;
+  reason: string;
+  url?: string;
+};
+
+export type ImportPlan = {
+  toAdd: ImportableMedia[];
+  duplicates: number;
+  rejected: RejectedItem[];
+};
+
+type RawBackup = Record<string, unknown>;
+
+// Each step upgrades a backup from the keyed version to the next one
+const migrations: Record<
+  string,
+  { to: string; migrate: (data: RawBackup) => RawBackup }
+> = {
+  // 1.0: bare { items } (or a plain array, see parseBackup)
+  "1.0": { to: "1.1", migrate: (data) => data },
+  // 1.1: plaintext hiddenItems + vaultConfig next to items
+  "1.1": {
+    to: "2.0",
+    migrate: ({ hiddenItems, vaultConfig, ...rest }) => {
+      const hidden = Array.isArray(hiddenItems) ? hiddenItems : [];
+      if (hidden.length === 0 && !vaultConfig) return rest;
+      return {
+        ...rest,
+        legacyVault: {
+          hiddenItems: hidden,
+          vaultConfig: (vaultConfig as VaultConfig | undefined) ?? null,
+        },
+      };
+    },
+  },
+  // 2.0: hidden items encrypted in 'vault'
+  "2.0": { to: "2.1", migrate: (data) => ({ ...data, boards: [] }) },
+};
+
+// Migrates any supported backup shape to the current version. Throws with a
+// user-facing message when the file cannot be read as a backup.
+export function parseBackup(raw: unknown): Backup {
+  let data: RawBackup;
+  if (Array.isArray(raw)) {
+    data = { version: "1.0", items: raw };
+  } else if (raw && typeof raw === "object") {
+    data = { version: "1.0", ...(raw as RawBackup) };
+  } else {
+    throw new Error("Invalid backup file format");
+  }
+
+  while (data.version !== BACKUP_VERSION) {
+    const step = migrations[String(data.version)];
+    if (!step) {
+      throw new Error(`Unsupported backup version "${data.version}"`);
+    }
+    data = { ...step.migrate(data), version: step.to };
+  }
+
+  if (!Array.isArray(data.items)) {
+    throw new Error("Invalid backup file format");
+  }
+  if (data.vault !== undefined && !isEncryptedEnvelope(data.vault)) {
+    throw new Error("Hidden vault section is corrupt");
+  }
+
+  return {
+    version: BACKUP_VERSION,
+    exportedAt: typeof data.exportedAt === "string" ? data.exportedAt : null,
+    items: data.items,
+    boards: Array.isArray(data.boards)
+      ? data.boards.map(validateBoard).filter((b): b is Board => b !== null)
+      : [],
+    vault: data.vault as EncryptedEnvelope | undefined,
+    legacyVault: data.legacyVault as LegacyVault | undefined,
+  };
+}
+
+export function hasVaultData(backup: Backup): boolean {
+  return !!backup.vault || !!backup.legacyVault;
+}
+
+// Boards are small and self-contained: malformed ones are dropped
+function validateBoard(raw: unknown, index: number): Board | null {
+  if (!raw || typeof raw !== "object") return null;
+  const row = raw as Record<string, unknown>;
+  if (typeof row.id !== "string" || !row.id) return null;
+  if (typeof row.name !== "string" || !row.name.trim()) return null;
+  return {
+    id: row.id,
+    name: row.name.trim(),
+    description: typeof row.description === "string" ? row.description : "",
+    cover: typeof row.cover === "string" && row.cover ? row.cover : undefined,
+    sortOrder: typeof row.sortOrder === "number" ? row.sortOrder : index,
+    createdAt: typeof row.createdAt === "number" ? row.createdAt : Date.now(),
+  };
+}
+
+// Checks one backup row; returns the reason when it cannot be imported
+export function validateItem(
+  raw: unknown
+): { item: ImportableMedia } | { reason: string } {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { reason: "Not an item object" };
+  }
+  const row = raw as Record<string, unknown>;
+  const checked = checkMediaUrl(row.url);
+  if ("reason" in checked) return checked;
+  if (
+    row.tags !== undefined &&
+    (!Array.isArray(row.tags) || row.tags.some((t) => typeof t !== "string"))
+  ) {
+    return { reason: "Tags must be a list of strings" };
+  }
+  if (row.createdAt !== undefined && typeof row.createdAt !== "number") {
+    return { reason: "Invalid creation date" };
+  }
+  if (
+    row.boardIds !== undefined &&
+    (!Array.isArray(row.boardIds) ||
+      row.boardIds.some((b) => typeof b !== "string"))
+  ) {
+    return { reason: "Board ids must be a list of strings" };
+  }
+  if (row.notes !== undefined && typeof row.notes !== "string") {
+    return { reason: "Notes must be text" };
+  }
+  if (row.favorite !== undefined && typeof row.favorite !== "boolean") {
+    return { reason: "Favorite must be true or false" };
+  }
+  if (row.pinnedAt !== undefined && typeof row.pinnedAt !== "number") {
+    return { reason: "Invalid pin date" };
+  }
+  if (row.rating !== undefined && !isRating(row.rating)) {
+    return { reason: "Rating must be a whole number from 1 to 5" };
+  }
+  if (row.lastOpenedAt !== undefined && typeof row.lastOpenedAt !== "number") {
+    return { reason: "Invalid last opened date" };
+  }
+  if (row.position !== undefined && typeof row.position !== "string") {
+    return { reason: "Position must be text" };
+  }
+  return { item: row as ImportableMedia };
+}
+
+// Points imported items at local board ids, dropping unknown boards
+export function remapBoardIds<T extends { boardIds?: unknown }>(
+  rows: T[],
+  boardIds: Map<string, string>
+): T[] {
+  return rows.map((row) => {
+    if (!row || typeof row !== "object" || !Array.isArray(row.boardIds)) {
+      return row;
+    }
+    return {
+      ...row,
+      boardIds: row.boardIds
+        .map((id) => boardIds.get(id))
+        .filter((id): id is string => !!id),
+    };
+  });
+}
+
+// Dry-run of an import: nothing is written, only classified
+export function planImport(
+  rows: unknown[],
+  existing: MediaItem[],
+  mode: ImportMode
+): ImportPlan {
+  const seen = new Set(
+    mode === "merge" ? existing.map((i) => urlKey(i.url || "")) : []
+  );
+  const plan: ImportPlan = { toAdd: [], duplicates: 0, rejected: [] };
+
+  rows.forEach((raw, index) => {
+    const result = validateItem(raw);
+    if ("reason" in result) {
+      const url = (raw as { url?: unknown } | null)?.url;
+      plan.rejected.push({
+        index,
+        reason: result.reason,
+        url: typeof url === "string" ? url : undefined,
+      });
+      return;
+    }
+    const key = urlKey(result.item.url as string);
+    if (seen.has(key)) {
+      plan.duplicates++;
+      return;
+    }
+    seen.add(key);
+    plan.toAdd.push(result.item);
+  });
+
+  return plan;
+}
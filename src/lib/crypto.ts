@@ -1,13 +1,51 @@
-// Web Crypto helpers for passcode hashing/verification
+// Web Crypto helpers for passcode hashing/verification and hidden-vault encryption
+
+// Vault key pair: items are sealed with the public key (so they can be hidden
+// while the vault is locked) and the private key is stored AES-GCM encrypted
+// under a key derived from the passcode.
+export type VaultKeys = {
+  keySaltB64: string;
+  publicKeyB64: string; // spki
+  privateKeyB64: string; // pkcs8, encrypted
+  privateKeyIvB64: string;
+};
+
+// What the user types to unlock: a fixed-length PIN or a free-form passphrase
+export type VaultCredential =
+  { kind: "pin"; length: number } | { kind: "passphrase" };
+
+export const PIN_MIN_LENGTH = 4;
+export const PIN_MAX_LENGTH = 8;
+export const PASSPHRASE_MIN_LENGTH = 8;
+export const DEFAULT_CREDENTIAL: VaultCredential = { kind: "pin", length: 5 };
 
 export type VaultConfig = {
   saltB64: string;
   hashB64: string;
   iterations: number;
   algo: "PBKDF2-SHA256";
+  credential?: VaultCredential; // missing on vaults created with a 5-digit PIN
+  keys?: VaultKeys; // missing on vaults created before encryption at rest
+};
+
+export type VaultKeyPair = {
+  publicKey: CryptoKey;
+  privateKey: CryptoKey;
+};
+
+// Ciphertext stored in place of a hidden MediaItem
+export type EncryptedRecord = {
+  id: string;
+  v: 1;
+  ivB64: string;
+  wrappedKeyB64: string;
+  dataB64: string;
 };
 
 const enc = new TextEncoder();
+const dec = new TextDecoder();
+
+const RSA_PARAMS: RsaHashedImportParams = { name: "RSA-OAEP", hash: "SHA-256" };
 
 export function randomBytes(length = 16): Uint8Array {
   const buf = new Uint8Array(length);
@@ -29,6 +67,13 @@ export function fromBase64(b64: string): Uint8Array {
   return bytes;
 }
 
+// Copies bytes into a standalone ArrayBuffer (what SubtleCrypto expects)
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  const buf = new ArrayBuffer(bytes.byteLength);
+  new Uint8Array(buf).set(bytes);
+  return buf;
+}
+
 export async function derivePBKDF2(
   passcode: string,
   salt: Uint8Array,
@@ -65,6 +110,28 @@ export async function hashPasscode(
   };
 }
 
+export function credentialOf(cfg: VaultConfig | null): VaultCredential {
+  return cfg?.credential ?? DEFAULT_CREDENTIAL;
+}
+
+// True once the entered value has the shape the credential requires
+export function isCredentialComplete(
+  value: string,
+  credential: VaultCredential
+): boolean {
+  if (credential.kind === "pin") {
+    return value.length === credential.length && /^\d+$/.test(value);
+  }
+  return value.length >= PASSPHRASE_MIN_LENGTH;
+}
+
+// "6-digit PIN" / "passphrase"
+export function describeCredential(credential: VaultCredential): string {
+  return credential.kind === "pin"
+    ? `${credential.length}-digit PIN`
+    : "passphrase";
+}
+
 export async function verifyPasscode(passcode: string, cfg: VaultConfig) {
   const salt = fromBase64(cfg.saltB64);
   const derived = await derivePBKDF2(passcode, salt, cfg.iterations);
@@ -78,3 +145,251 @@ export function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
   for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
   return diff === 0;
 }
+
+// AES-GCM key derived from the passcode. Uses its own salt so it never equals
+// the stored verification hash.
+export async function derivePasscodeKey(
+  passcode: string,
+  salt: Uint8Array,
+  iterations = 150_000
+): Promise<CryptoKey> {
+  const bits = await derivePBKDF2(passcode, salt, iterations);
+  return crypto.subtle.importKey("raw", bits, { name: "AES-GCM" }, false, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+export function importPublicKey(publicKeyB64: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "spki",
+    toArrayBuffer(fromBase64(publicKeyB64)),
+    RSA_PARAMS,
+    true,
+    ["wrapKey"]
+  );
+}
+
+function importPrivateKey(pkcs8: ArrayBuffer): Promise<CryptoKey> {
+  // Non-extractable once imported: only usable for unwrapping item keys
+  return crypto.subtle.importKey("pkcs8", pkcs8, RSA_PARAMS, false, [
+    "unwrapKey",
+  ]);
+}
+
+async function protectPrivateKey(
+  passcode: string,
+  pkcs8: ArrayBuffer,
+  publicKeyB64: string,
+  iterations: number
+): Promise<VaultKeys> {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const key = await derivePasscodeKey(passcode, salt, iterations);
+  const encrypted = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv: toArrayBuffer(iv) },
+    key,
+    pkcs8
+  );
+  return {
+    keySaltB64: toBase64(salt),
+    publicKeyB64,
+    privateKeyB64: toBase64(encrypted),
+    privateKeyIvB64: toBase64(iv),
+  };
+}
+
+export async function createVaultKeys(
+  passcode: string,
+  iterations = 150_000
+): Promise<{ keys: VaultKeys; pair: VaultKeyPair }> {
+  const generated = await crypto.subtle.generateKey(
+    {
+      ...RSA_PARAMS,
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+    },
+    true,
+    ["wrapKey", "unwrapKey"]
+  );
+  const [pkcs8, spki] = await Promise.all([
+    crypto.subtle.exportKey("pkcs8", generated.privateKey),
+    crypto.subtle.exportKey("spki", generated.publicKey),
+  ]);
+  const keys = await protectPrivateKey(
+    passcode,
+    pkcs8,
+    toBase64(spki),
+    iterations
+  );
+  return {
+    keys,
+    pair: {
+      publicKey: generated.publicKey,
+      privateKey: await importPrivateKey(pkcs8),
+    },
+  };
+}
+
+// Decrypts the vault private key. Throws if the passcode is wrong.
+export async function openVaultKeys(
+  passcode: string,
+  cfg: VaultConfig
+): Promise<VaultKeyPair> {
+  if (!cfg.keys) throw new Error("Vault keys not configured");
+  const { keys } = cfg;
+  const key = await derivePasscodeKey(
+    passcode,
+    fromBase64(keys.keySaltB64),
+    cfg.iterations
+  );
+  const pkcs8 = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: toArrayBuffer(fromBase64(keys.privateKeyIvB64)) },
+    key,
+    toArrayBuffer(fromBase64(keys.privateKeyB64))
+  );
+  const [publicKey, privateKey] = await Promise.all([
+    importPublicKey(keys.publicKeyB64),
+    importPrivateKey(pkcs8),
+  ]);
+  return { publicKey, privateKey };
+}
+
+export function isEncryptedRecord(value: unknown): value is EncryptedRecord {
+  if (!value || typeof value !== "object") return false;
+  const r = value as Partial<EncryptedRecord>;
+  return (
+    r.v === 1 &&
+    typeof r.ivB64 === "string" &&
+    typeof r.wrappedKeyB64 === "string" &&
+    typeof r.dataB64 === "string"
+  );
+}
+
+// Encrypts a record with a fresh AES-GCM key wrapped by the vault public key
+export async function sealRecord<T extends { id: string }>(
+  value: T,
+  publicKey: CryptoKey
+): Promise<EncryptedRecord> {
+  const itemKey = await crypto.subtle.generateKey(
+    { name: "AES-GCM", length: 256 },
+    true,
+    ["encrypt"]
+  );
+  const iv = randomBytes(12);
+  const [data, wrapped] = await Promise.all([
+    crypto.subtle.encrypt(
+      { name: "AES-GCM", iv: toArrayBuffer(iv) },
+      itemKey,
+      enc.encode(JSON.stringify(value))
+    ),
+    crypto.subtle.wrapKey("raw", itemKey, publicKey, { name: "RSA-OAEP" }),
+  ]);
+  return {
+    id: value.id,
+    v: 1,
+    ivB64: toBase64(iv),
+    wrappedKeyB64: toBase64(wrapped),
+    dataB64: toBase64(data),
+  };
+}
+
+export async function openRecord<T>(
+  record: EncryptedRecord,
+  privateKey: CryptoKey
+): Promise<T> {
+  const itemKey = await crypto.subtle.unwrapKey(
+    "raw",
+    toArrayBuffer(fromBase64(record.wrappedKeyB64)),
+    privateKey,
+    { name: "RSA-OAEP" },
+    { name: "AES-GCM" },
+    false,
+    ["decrypt"]
+  );
+  const plain = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: toArrayBuffer(fromBase64(record.ivB64)) },
+    itemKey,
+    toArrayBuffer(fromBase64(record.dataB64))
+  );
+  return JSON.parse(dec.decode(plain)) as T;
+}
+
+// Passcode-encrypted section of a backup file (version "2.0")
+export type EncryptedEnvelope = {
+  kdf: { name: "PBKDF2-SHA256"; iterations: number; saltB64: string };
+  cipher: { name: "AES-GCM"; ivB64: string };
+  credential: VaultCredential;
+  ciphertextB64: string;
+};
+
+export async function encryptEnvelope(
+  value: unknown,
+  passcode: string,
+  credential: VaultCredential,
+  iterations = 150_000
+): Promise<EncryptedEnvelope> {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const key = await derivePasscodeKey(passcode, salt, iterations);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv: toArrayBuffer(iv) },
+    key,
+    enc.encode(JSON.stringify(value))
+  );
+  return {
+    kdf: { name: "PBKDF2-SHA256", iterations, saltB64: toBase64(salt) },
+    cipher: { name: "AES-GCM", ivB64: toBase64(iv) },
+    credential,
+    ciphertextB64: toBase64(ciphertext),
+  };
+}
+
+// Bounds for an imported envelope's PBKDF2 cost: fewer is too weak to trust,
+// more would stall the tab deriving the key
+const MIN_ENVELOPE_ITERATIONS = 100_000;
+const MAX_ENVELOPE_ITERATIONS = 10_000_000;
+
+function isSaneIterations(iterations: unknown): iterations is number {
+  return (
+    Number.isInteger(iterations) &&
+    (iterations as number) >= MIN_ENVELOPE_ITERATIONS &&
+    (iterations as number) <= MAX_ENVELOPE_ITERATIONS
+  );
+}
+
+// Throws if the passcode is wrong or the envelope was tampered with
+export async function decryptEnvelope<T>(
+  envelope: EncryptedEnvelope,
+  passcode: string
+): Promise<T> {
+  if (!isSaneIterations(envelope.kdf.iterations)) {
+    throw new Error("Unsupported key derivation cost");
+  }
+  const key = await derivePasscodeKey(
+    passcode,
+    fromBase64(envelope.kdf.saltB64),
+    envelope.kdf.iterations
+  );
+  const plain = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: toArrayBuffer(fromBase64(envelope.cipher.ivB64)) },
+    key,
+    toArrayBuffer(fromBase64(envelope.ciphertextB64))
+  );
+  return JSON.parse(dec.decode(plain)) as T;
+}
+
+export function isEncryptedEnvelope(
+  value: unknown
+): value is EncryptedEnvelope {
+  if (!value || typeof value !== "object") return false;
+  const e = value as Partial<EncryptedEnvelope>;
+  return (
+    e.kdf?.name === "PBKDF2-SHA256" &&
+    isSaneIterations(e.kdf.iterations) &&
+    typeof e.kdf.saltB64 === "string" &&
+    e.cipher?.name === "AES-GCM" &&
+    typeof e.cipher.ivB64 === "string" &&
+    typeof e.ciphertextB64 === "string"
+  );
+}
@@ -0,0 +1,314 @@
+// PreviewzDB schema and data-access helpers. Every schema change is a
+// migration appended to the registry; the DB version is the registry length.
+
+import type { MediaItem } from "@/hooks/use-media-store";
+import { urlKey } from "@/lib/media";
+
+export const DB_NAME = "PreviewzDB";
+export const MEDIA_STORE = "media";
+export const HIDDEN_STORE = "hidden";
+export const VAULT_STORE = "vault";
+export const BOARD_STORE = "boards";
+export const TRASH_STORE = "trash";
+export const VIEW_STORE = "views";
+
+export type StoreName =
+  | typeof MEDIA_STORE
+  | typeof HIDDEN_STORE
+  | typeof VAULT_STORE
+  | typeof BOARD_STORE
+  | typeof TRASH_STORE
+  | typeof VIEW_STORE;
+
+// Media rows also carry the normalized URL so duplicates can be found by index
+export type MediaRecord = MediaItem & { urlKey: string };
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+// migrations[n] upgrades a database from version n to n + 1. Shipped entries
+// must never change; append a new one instead.
+const migrations: Migration[] = [
+  // 1: library. The pre-registry opener created stores lazily, so guard
+  (db) => {
+    if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+      db.createObjectStore(MEDIA_STORE, { keyPath: "id" });
+    }
+  },
+  // 2: hidden vault records
+  (db) => {
+    if (!db.objectStoreNames.contains(HIDDEN_STORE)) {
+      db.createObjectStore(HIDDEN_STORE, { keyPath: "id" });
+    }
+  },
+  // 3: remembered vault session keys
+  (db) => {
+    if (!db.objectStoreNames.contains(VAULT_STORE)) {
+      db.createObjectStore(VAULT_STORE, { keyPath: "id" });
+    }
+  },
+  // 4: query indexes, backfilling the normalized URL
+  (_db, tx) => {
+    const media = tx.objectStore(MEDIA_STORE);
+    media.createIndex("createdAt", "createdAt");
+    media.createIndex("format", "format");
+    media.createIndex("tags", "tags", { multiEntry: true });
+    media.createIndex("urlKey", "urlKey");
+    updateRecords<MediaItem>(media, toMediaRecord);
+  },
+  // 5: stable newest-first paging (createdAt alone has ties after imports)
+  (_db, tx) => {
+    tx.objectStore(MEDIA_STORE).createIndex("recent", ["createdAt", "id"]);
+  },
+  // 6: boards, with item membership kept on the items
+  (db, tx) => {
+    db.createObjectStore(BOARD_STORE, { keyPath: "id" });
+    tx.objectStore(MEDIA_STORE).createIndex("boardIds", "boardIds", {
+      multiEntry: true,
+    });
+  },
+  // 7: soft-deleted items, purged by deletion time
+  (db) => {
+    const trash = db.createObjectStore(TRASH_STORE, { keyPath: "id" });
+    trash.createIndex("deletedAt", "deletedAt");
+  },
+  // 8: pinned items, loaded up front whatever page they fall on (unpinned
+  // rows have no pinnedAt and stay out of the index)
+  (_db, tx) => {
+    tx.objectStore(MEDIA_STORE).createIndex("pinnedAt", "pinnedAt");
+  },
+  // 9: saved searches (smart views)
+  (db) => {
+    db.createObjectStore(VIEW_STORE, { keyPath: "id" });
+  },
+];
+
+export const DB_VERSION = migrations.length;
+
+// Rewrites every record in a store (inside an upgrade or readwrite transaction)
+function updateRecords<T>(store: IDBObjectStore, transform: (value: T) => T) {
+  const req = store.openCursor();
+  req.onsuccess = () => {
+    const cursor = req.result;
+    if (!cursor) return;
+    cursor.update(transform(cursor.value as T));
+    cursor.continue();
+  };
+}
+
+// Module-level DB singleton to avoid re-opening and re-running effects
+let dbInstance: IDBDatabase | null = null;
+let opening: Promise<IDBDatabase> | null = null;
+const versionChangeListeners = new Set<() => void>();
+
+// Notified after this tab let go of the DB for an upgrade or deletion
+// started elsewhere; this tab's data is stale from then on
+export function onVersionChange(listener: () => void) {
+  versionChangeListeners.add(listener);
+  return () => {
+    versionChangeListeners.delete(listener);
+  };
+}
+
+export function openDB(): Promise<IDBDatabase> {
+  if (dbInstance) return Promise.resolve(dbInstance);
+  if (typeof window === "undefined")
+    return Promise.reject(new Error("No window"));
+  if (opening) return opening;
+
+  opening = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => {
+      opening = null;
+      reject(request.error);
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab is upgrading or deleting the DB: close so it isn't blocked
+      db.onversionchange = () => {
+        db.close();
+        if (dbInstance === db) dbInstance = null;
+        versionChangeListeners.forEach((listener) => listener());
+      };
+      dbInstance = db;
+      opening = null;
+      resolve(db);
+    };
+    request.onblocked = () => {
+      console.warn("PreviewzDB upgrade is waiting for other tabs to close it");
+    };
+    request.onupgradeneeded = (event) => {
+      const tx = request.transaction;
+      if (!tx) return;
+      for (let v = event.oldVersion; v < DB_VERSION; v++) {
+        migrations[v](request.result, tx);
+      }
+    };
+  });
+  return opening;
+}
+
+export function closeDB() {
+  if (dbInstance) {
+    dbInstance.close();
+    dbInstance = null;
+  }
+}
+
+function txDone(tx: IDBTransaction): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+}
+
+// Runs one read query and resolves with its result
+async function read<T>(
+  store: StoreName,
+  query: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDB();
+  const req = query(db.transaction(store, "readonly").objectStore(store));
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result as T);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// Queues writes in a single readwrite transaction; resolves once committed
+export async function write(
+  stores: StoreName | StoreName[],
+  run: (tx: IDBTransaction) => void
+): Promise<void> {
+  const db = await openDB();
+  const tx = db.transaction(stores, "readwrite");
+  const done = txDone(tx);
+  run(tx);
+  return done;
+}
+
+export function getAll<T>(store: StoreName): Promise<T[]> {
+  return read<T[]>(store, (s) => s.getAll());
+}
+
+export function get<T>(
+  store: StoreName,
+  key: IDBValidKey
+): Promise<T | undefined> {
+  return read<T | undefined>(store, (s) => s.get(key));
+}
+
+export function getAllKeys(store: StoreName): Promise<IDBValidKey[]> {
+  return read<IDBValidKey[]>(store, (s) => s.getAllKeys());
+}
+
+export function count(store: StoreName): Promise<number> {
+  return read<number>(store, (s) => s.count());
+}
+
+// Trash entries deleted at or before the given time
+export function getTrashKeysBefore(time: number): Promise<IDBValidKey[]> {
+  return read<IDBValidKey[]>(TRASH_STORE, (s) =>
+    s.index("deletedAt").getAllKeys(IDBKeyRange.upperBound(time))
+  );
+}
+
+export function toMediaRecord(item: MediaItem): MediaRecord {
+  return { ...item, urlKey: urlKey(item.url || "") };
+}
+
+export function fromMediaRecord(record: MediaRecord): MediaItem {
+  const { urlKey: _key, ...item } = record;
+  return item;
+}
+
+// Newest first, straight off the createdAt index
+export async function getAllMedia(): Promise<MediaItem[]> {
+  const records = await read<MediaRecord[]>(MEDIA_STORE, (s) =>
+    s.index("createdAt").getAll()
+  );
+  return records.reverse().map(fromMediaRecord);
+}
+
+export async function getMediaByBoard(boardId: string): Promise<MediaItem[]> {
+  const records = await read<MediaRecord[]>(MEDIA_STORE, (s) =>
+    s.index("boardIds").getAll(boardId)
+  );
+  return records.map(fromMediaRecord);
+}
+
+export async function getPinnedMedia(): Promise<MediaItem[]> {
+  const records = await read<MediaRecord[]>(MEDIA_STORE, (s) =>
+    s.index("pinnedAt").getAll()
+  );
+  return records.map(fromMediaRecord);
+}
+
+// Distinct keys of an index, read without loading any records
+async function readIndexKeys<K extends IDBValidKey>(
+  index: string
+): Promise<K[]> {
+  const db = await openDB();
+  const source = db
+    .transaction(MEDIA_STORE, "readonly")
+    .objectStore(MEDIA_STORE)
+    .index(index);
+  return new Promise<K[]>((resolve, reject) => {
+    const keys: K[] = [];
+    const req = source.openKeyCursor(null, "nextunique");
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) return resolve(keys);
+      keys.push(cursor.key as K);
+      cursor.continue();
+    };
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// Normalized URLs of the whole library
+export async function getMediaUrlKeys(): Promise<Set<string>> {
+  return new Set(await readIndexKeys<string>("urlKey"));
+}
+
+// Every tag and format in the library, including rows not paged in yet
+export async function getMediaFacets(): Promise<{
+  tags: string[];
+  formats: string[];
+}> {
+  const [tags, formats] = await Promise.all([
+    readIndexKeys<string>("tags"),
+    readIndexKeys<string>("format"),
+  ]);
+  return { tags, formats };
+}
+
+// Position in the "recent" index: the last row of the previous page
+export type MediaPageCursor = [createdAt: number, id: string];
+
+// One page of the library, newest first. 'next' is null after the last page.
+export async function getMediaPage(
+  after: MediaPageCursor | null,
+  limit: number
+): Promise<{ items: MediaItem[]; next: MediaPageCursor | null }> {
+  const db = await openDB();
+  const index = db
+    .transaction(MEDIA_STORE, "readonly")
+    .objectStore(MEDIA_STORE)
+    .index("recent");
+  const range = after ? IDBKeyRange.upperBound(after, true) : null;
+
+  return new Promise((resolve, reject) => {
+    const items: MediaItem[] = [];
+    const req = index.openCursor(range, "prev");
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) return resolve({ items, next: null });
+      items.push(fromMediaRecord(cursor.value as MediaRecord));
+      if (items.length < limit) return cursor.continue();
+      resolve({ items, next: cursor.key as MediaPageCursor });
+    };
+    req.onerror = () => reject(req.error);
+  });
+}
@@ -0,0 +1,31 @@
+// Fractional indexing: order keys are base-62 digit strings compared as plain
+// strings, and a new key can always be made between any two. Keys never end
+// in the zero digit, which is what keeps that room open.
+
+const DIGITS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // Keep the shared prefix; `a` reads as zero-padded
+    let n = 0;
+    while ((a[n] ?? "0") === b[n]) n++;
+    if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+  // Adjacent digits: shorten to b's first digit, or go one level deeper
+  if (b !== null && b.length > 1) return b.slice(0, 1);
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+
+// A key sorting strictly after `a` and before `b` (null = open end)
+export function keyBetween(a: string | null, b: string | null): string {
+  if (a !== null && b !== null && a >= b) {
+    throw new Error(`Invalid key range: ${a} >= ${b}`);
+  }
+  return midpoint(a ?? "", b);
+}
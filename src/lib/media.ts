@@ -0,0 +1,305 @@
+// Single normalization pipeline for every way media enters the library
+// (add modal, paste, drop, merge/overwrite import, hidden import)
+
+import type { ImportableMedia, MediaItem } from "@/hooks/use-media-store";
+import type { GroupKey, SortKey } from "@/hooks/use-layout-store";
+import { detectMediaTypeFromUrl } from "@/lib/utils";
+import { keyBetween } from "@/lib/fractional-index";
+
+export type MediaFormat = MediaItem["format"];
+
+export function detectFormat(url: string, type: string): MediaFormat {
+  const urlLower = url.toLowerCase();
+
+  // Same image/video heuristics the add modal uses to pre-select a type
+  const detected = detectMediaTypeFromUrl(url);
+  if (detected !== "other") return detected;
+
+  if (urlLower.endsWith(".pdf") || urlLower.includes("pdf")) {
+    return "document";
+  }
+
+  if (urlLower.startsWith("http://") || urlLower.startsWith("https://")) {
+    return "website";
+  }
+
+  return "other";
+}
+
+// Accepts only absolute http(s) URLs; returns the reason otherwise
+export function checkMediaUrl(
+  raw: unknown
+): { url: string } | { reason: string } {
+  if (typeof raw !== "string" || !raw.trim()) return { reason: "Missing URL" };
+  let parsed: URL;
+  try {
+    parsed = new URL(raw.trim());
+  } catch {
+    return { reason: "Invalid URL" };
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return { reason: `Unsupported URL scheme "${parsed.protocol}"` };
+  }
+  return { url: raw.trim() };
+}
+
+// Key used for duplicate detection
+export function urlKey(url: string): string {
+  return url.trim().toLowerCase();
+}
+
+export function generateId(): string {
+  return Date.now().toString() + Math.random().toString(36).slice(2);
+}
+
+// Trimmed, de-duplicated non-empty strings (tags, board ids)
+function normalizeStringList(raw: unknown): string[] {
+  if (!Array.isArray(raw)) return [];
+  const values = raw
+    .filter((t): t is string => typeof t === "string")
+    .map((t) => t.trim())
+    .filter(Boolean);
+  return Array.from(new Set(values));
+}
+
+export function normalizeTags(raw: unknown): string[] {
+  return normalizeStringList(raw);
+}
+
+export function isRating(value: unknown): value is number {
+  return (
+    Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 5
+  );
+}
+
+// Pinned items first (latest pin leading), the rest in their given order
+export function pinnedFirst(items: MediaItem[]): MediaItem[] {
+  const pinned = items
+    .filter((i) => i.pinnedAt !== undefined)
+    .sort((a, b) => (b.pinnedAt ?? 0) - (a.pinnedAt ?? 0));
+  if (pinned.length === 0) return items;
+  return [...pinned, ...items.filter((i) => i.pinnedAt === undefined)];
+}
+
+export function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return "";
+  }
+}
+
+const byNewest = (a: MediaItem, b: MediaItem) => b.createdAt - a.createdAt;
+const byText = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { sensitivity: "base", numeric: true });
+
+// Ties fall back to newest first
+const comparators: Record<SortKey, (a: MediaItem, b: MediaItem) => number> = {
+  newest: byNewest,
+  oldest: (a, b) => a.createdAt - b.createdAt,
+  name: (a, b) => byText(a.name, b.name) || byNewest(a, b),
+  domain: (a, b) =>
+    byText(hostnameOf(a.url), hostnameOf(b.url)) || byNewest(a, b),
+  format: (a, b) => byText(a.format, b.format) || byNewest(a, b),
+  opened: (a, b) =>
+    (b.lastOpenedAt ?? 0) - (a.lastOpenedAt ?? 0) || byNewest(a, b),
+  rating: (a, b) => (b.rating ?? 0) - (a.rating ?? 0) || byNewest(a, b),
+  // Positioned items in position order, then the rest newest first
+  manual: (a, b) => {
+    if (a.position === undefined || b.position === undefined) {
+      if (a.position !== b.position) return a.position === undefined ? 1 : -1;
+      return byNewest(a, b);
+    }
+    if (a.position === b.position) return byNewest(a, b);
+    return a.position < b.position ? -1 : 1;
+  },
+};
+
+export function sortItems(items: MediaItem[], key: SortKey): MediaItem[] {
+  return [...items].sort(comparators[key] ?? byNewest);
+}
+
+export interface MediaGroup {
+  key: string;
+  label: string;
+  items: MediaItem[];
+}
+
+// Monday of the item's week, local time
+function startOfWeek(time: number): Date {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date;
+}
+
+const groupOf: Record<
+  Exclude<GroupKey, "none">,
+  (item: MediaItem) => { key: string; label: string }
+> = {
+  domain: (item) => {
+    const host = hostnameOf(item.url);
+    return { key: host, label: host || "No domain" };
+  },
+  tag: (item) => ({
+    key: item.tags[0] ?? "",
+    label: item.tags[0] ?? "Untagged",
+  }),
+  format: (item) => ({ key: item.format, label: item.format }),
+  day: (item) => {
+    const date = new Date(item.createdAt);
+    return {
+      key: date.toDateString(),
+      label: date.toLocaleDateString(undefined, {
+        weekday: "short",
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+      }),
+    };
+  },
+  week: (item) => {
+    const monday = startOfWeek(item.createdAt);
+    return {
+      key: monday.toDateString(),
+      label: `Week of ${monday.toLocaleDateString(undefined, {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+      })}`,
+    };
+  },
+  month: (item) => {
+    const date = new Date(item.createdAt);
+    return {
+      key: `${date.getFullYear()}-${date.getMonth()}`,
+      label: date.toLocaleDateString(undefined, {
+        month: "long",
+        year: "numeric",
+      }),
+    };
+  },
+};
+
+// Splits items into sections, ordered by each section's first item
+export function groupItems(items: MediaItem[], by: GroupKey): MediaGroup[] {
+  if (by === "none") return [{ key: "", label: "", items }];
+  const groups = new Map<string, MediaGroup>();
+  for (const item of items) {
+    const { key, label } = groupOf[by](item);
+    const group = groups.get(key);
+    if (group) group.items.push(item);
+    else groups.set(key, { key, label, items: [item] });
+  }
+  return Array.from(groups.values());
+}
+
+// Positions that put `id` just before or after `targetId` in a manually
+// sorted list. Once the list is positioned only the moved item changes; the
+// first moves also number the unpositioned items ahead of the drop point.
+export function planMove(
+  ordered: MediaItem[],
+  id: string,
+  targetId: string,
+  after: boolean
+): Record<string, string> {
+  const rest = ordered.filter((i) => i.id !== id);
+  const target = rest.findIndex((i) => i.id === targetId);
+  if (target === -1) return {};
+  const index = after ? target + 1 : target;
+
+  const positions: Record<string, string> = {};
+  let last: string | null = null;
+  for (const item of rest.slice(0, index)) {
+    if (
+      item.position !== undefined &&
+      (last === null || item.position > last)
+    ) {
+      last = item.position;
+    } else {
+      last = keyBetween(last, null);
+      positions[item.id] = last;
+    }
+  }
+
+  const next = rest[index]?.position;
+  last = keyBetween(
+    last,
+    next !== undefined && (last === null || next > last) ? next : null
+  );
+  positions[id] = last;
+
+  // Push along any positioned items the new key caught up with
+  for (const item of rest.slice(index)) {
+    if (item.position === undefined || item.position > last) break;
+    last = keyBetween(last, null);
+    positions[item.id] = last;
+  }
+  return positions;
+}
+
+// Plain-text search over name, tags and notes
+export function matchesText(item: MediaItem, query: string): boolean {
+  const q = query.toLowerCase();
+  return (
+    item.name.toLowerCase().includes(q) ||
+    item.tags.some((tag) => tag.toLowerCase().includes(q)) ||
+    !!item.notes?.toLowerCase().includes(q)
+  );
+}
+
+type NormalizeOptions = {
+  // ids already in use; a colliding or missing id gets a fresh one
+  takenIds?: Set<string>;
+  isHidden?: boolean;
+  now?: number;
+};
+
+// Turns loosely-typed input into a complete MediaItem, or null when the URL
+// is unusable. Type is coerced, format recomputed, name falls back to the
+// hostname.
+export function normalizeMediaItem(
+  raw: ImportableMedia,
+  { takenIds, isHidden = false, now = Date.now() }: NormalizeOptions = {}
+): MediaItem | null {
+  const checked = checkMediaUrl(raw.url);
+  if ("reason" in checked) return null;
+  const { url } = checked;
+
+  const type: MediaItem["type"] =
+    raw.type === "image" || raw.type === "video" || raw.type === "other"
+      ? raw.type
+      : "other";
+
+  let name: string;
+  if (typeof raw.name === "string" && raw.name.trim()) {
+    name = raw.name.trim();
+  } else {
+    name = new URL(url).hostname || "Untitled";
+  }
+
+  let id = typeof raw.id === "string" && raw.id.trim() ? raw.id : generateId();
+  while (takenIds?.has(id)) id = generateId();
+  takenIds?.add(id);
+
+  return {
+    id,
+    url,
+    type,
+    format: detectFormat(url, type),
+    name,
+    tags: normalizeTags(raw.tags),
+    boardIds: normalizeStringList(raw.boardIds),
+    thumbnail: typeof raw.thumbnail === "string" ? raw.thumbnail : undefined,
+    notes:
+      typeof raw.notes === "string" && raw.notes.trim() ? raw.notes : undefined,
+    favorite: raw.favorite === true ? true : undefined,
+    pinnedAt: typeof raw.pinnedAt === "number" ? raw.pinnedAt : undefined,
+    rating: isRating(raw.rating) ? raw.rating : undefined,
+    lastOpenedAt:
+      typeof raw.lastOpenedAt === "number" ? raw.lastOpenedAt : undefined,
+    position: typeof raw.position === "string" ? raw.position : undefined,
+    createdAt: typeof raw.createdAt === "number" ? raw.createdAt : now,
+    isHidden,
+  };
+}
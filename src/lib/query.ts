@@ -0,0 +1,182 @@
+// Search query language shared by the search bars and the command palette:
+//   tag:ui -tag:old format:video domain:dribbble.com before:2025-01-01
+//   is:pinned rating:>=4 "exact phrase"
+// Terms are ANDed, a leading "-" negates one, and values may be quoted.
+// Anything that is not a known field searches name, tags and notes.
+
+import type { MediaItem } from "@/hooks/use-media-store";
+import { hostnameOf, matchesText } from "@/lib/media";
+
+export const QUERY_FIELDS = [
+  "tag",
+  "format",
+  "type",
+  "domain",
+  "before",
+  "after",
+  "is",
+  "rating",
+] as const;
+
+export type QueryField = (typeof QUERY_FIELDS)[number];
+
+export const IS_VALUES = ["pinned", "favorite", "rated", "noted"] as const;
+
+export interface QueryToken {
+  start: number; // offsets into the source, for highlighting
+  end: number;
+  negated: boolean;
+  field?: QueryField; // unset for plain text
+  value: string;
+  quoted: boolean;
+}
+
+function isQueryField(name: string): name is QueryField {
+  return (QUERY_FIELDS as readonly string[]).includes(name);
+}
+
+export function parseQuery(source: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    if (/\s/.test(source[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+
+    const negated = source[i] === "-";
+    if (negated) i++;
+
+    let field: QueryField | undefined;
+    const prefix = /^([a-z]+):/i.exec(source.slice(i));
+    if (prefix && isQueryField(prefix[1].toLowerCase())) {
+      field = prefix[1].toLowerCase() as QueryField;
+      i += prefix[0].length;
+    }
+
+    let value: string;
+    const quoted = source[i] === '"';
+    if (quoted) {
+      // An unclosed quote runs to the end (still being typed)
+      const close = source.indexOf('"', i + 1);
+      value = source.slice(i + 1, close === -1 ? source.length : close);
+      i = close === -1 ? source.length : close + 1;
+    } else {
+      let j = i;
+      while (j < source.length && !/\s/.test(source[j])) j++;
+      value = source.slice(i, j);
+      i = j;
+    }
+
+    tokens.push({ start, end: i, negated, field, value, quoted });
+  }
+
+  return tokens;
+}
+
+// [start, end) of a year, month or day written as YYYY[-MM[-DD]], local time
+function parseDateRange(value: string): [number, number] | null {
+  const match = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(value);
+  if (!match) return null;
+  const [, y, m, d] = match;
+  const year = Number(y);
+  const month = m ? Number(m) - 1 : 0;
+  const day = d ? Number(d) : 1;
+  const start = new Date(year, month, day);
+  if (start.getMonth() !== month || start.getDate() !== day) return null;
+  const end = d
+    ? new Date(year, month, day + 1)
+    : m
+      ? new Date(year, month + 1, 1)
+      : new Date(year + 1, 0, 1);
+  return [start.getTime(), end.getTime()];
+}
+
+function parseRating(value: string): ((rating: number) => boolean) | null {
+  const match = /^(>=|<=|>|<|=)?([1-5])$/.exec(value);
+  if (!match) return null;
+  const n = Number(match[2]);
+  switch (match[1]) {
+    case ">=":
+      return (r) => r >= n;
+    case "<=":
+      return (r) => r <= n;
+    case ">":
+      return (r) => r > n;
+    case "<":
+      return (r) => r < n;
+    default:
+      return (r) => r === n;
+  }
+}
+
+// Field values that cannot match anything sensible (a bad date, an unknown
+// is:) are flagged in the input and left out of the filter
+export function isValidToken(token: QueryToken): boolean {
+  const value = token.value.toLowerCase();
+  switch (token.field) {
+    case "before":
+    case "after":
+      return parseDateRange(value) !== null;
+    case "is":
+      return (IS_VALUES as readonly string[]).includes(value);
+    case "rating":
+      return parseRating(value) !== null;
+    default:
+      return true;
+  }
+}
+
+function matchesToken(item: MediaItem, token: QueryToken): boolean {
+  const value = token.value.toLowerCase();
+  switch (token.field) {
+    case "tag":
+      return item.tags.some((tag) => tag.toLowerCase() === value);
+    case "format":
+      return item.format === value;
+    case "type":
+      return item.type === value;
+    case "domain": {
+      const host = hostnameOf(item.url).toLowerCase();
+      const domain = value.replace(/^www\./, "");
+      return host === domain || host.endsWith(`.${domain}`);
+    }
+    case "before":
+      return item.createdAt < parseDateRange(value)![0];
+    case "after":
+      return item.createdAt >= parseDateRange(value)![1];
+    case "is":
+      return value === "pinned"
+        ? item.pinnedAt !== undefined
+        : value === "favorite"
+          ? !!item.favorite
+          : value === "rated"
+            ? item.rating !== undefined
+            : !!item.notes;
+    case "rating":
+      return item.rating !== undefined && parseRating(value)!(item.rating);
+    default:
+      return matchesText(item, token.value);
+  }
+}
+
+export function matchesQuery(item: MediaItem, tokens: QueryToken[]): boolean {
+  return tokens.every(
+    (token) =>
+      // Empty values are still being typed
+      !token.value ||
+      !isValidToken(token) ||
+      matchesToken(item, token) !== token.negated
+  );
+}
+
+// Writes a token back out, quoting values that need it
+export function formatToken(
+  token: Pick<QueryToken, "negated" | "field" | "value">
+): string {
+  const bare = token.value.replace(/"/g, "");
+  const value = /\s/.test(bare) ? `"${bare}"` : bare;
+  return `${token.negated ? "-" : ""}${token.field ? `${token.field}:` : ""}${value}`;
+}
@@ -0,0 +1,211 @@
+// In-memory fuzzy index over name, URL, hostname, tags and notes. Words map
+// to the items containing them, and trigrams of each word find its near
+// spellings, so a query term only scans the words it could plausibly match.
+
+import type { MediaItem } from "@/hooks/use-media-store";
+import { hostnameOf } from "@/lib/media";
+
+const FIELD_WEIGHTS = {
+  name: 3,
+  tags: 2.5,
+  host: 2,
+  notes: 1,
+  url: 1,
+};
+
+type FieldName = keyof typeof FIELD_WEIGHTS;
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+function trigrams(word: string, padded: boolean): string[] {
+  const text = padded ? ` ${word} ` : word;
+  const grams = new Set<string>();
+  for (let i = 0; i + 3 <= text.length; i++) grams.add(text.slice(i, i + 3));
+  return Array.from(grams);
+}
+
+// Edit distance counting adjacent swaps as one edit; gives up past `max`
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let before: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      let d = Math.min(
+        prev[j] + 1,
+        row[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d = Math.min(d, before[j - 2] + 1);
+      }
+      row.push(d);
+      best = Math.min(best, d);
+    }
+    if (best > max) return max + 1;
+    before = prev;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+function allowedTypos(term: string): number {
+  return term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+}
+
+// How well a query term matches one indexed word, 0 for not at all
+export function termScore(term: string, word: string): number {
+  if (word === term) return 1;
+  if (word.startsWith(term)) {
+    return 0.9 - Math.min(0.2, (word.length - term.length) * 0.02);
+  }
+  if (word.includes(term)) return 0.6;
+  const typos = allowedTypos(term);
+  if (!typos) return 0;
+  // Also against the word's start, for typos in a half-typed word
+  const distance = Math.min(
+    editDistance(term, word, typos),
+    editDistance(term, word.slice(0, term.length), typos)
+  );
+  return distance <= typos ? 0.5 - 0.15 * distance : 0;
+}
+
+export interface SearchIndex {
+  upsert: (item: MediaItem) => void;
+  remove: (id: string) => void;
+  // Item id -> score for items matching every term of the query
+  search: (query: string) => Map<string, number>;
+}
+
+export function createSearchIndex(): SearchIndex {
+  const postings = new Map<string, Map<string, number>>(); // word -> id -> weight
+  const gramWords = new Map<string, Set<string>>(); // trigram -> words
+  const itemWords = new Map<string, Set<string>>(); // id -> words
+
+  const addWord = (word: string, id: string, weight: number) => {
+    let items = postings.get(word);
+    if (!items) {
+      items = new Map();
+      postings.set(word, items);
+      for (const gram of trigrams(word, true)) {
+        let words = gramWords.get(gram);
+        if (!words) gramWords.set(gram, (words = new Set()));
+        words.add(word);
+      }
+    }
+    items.set(id, Math.max(items.get(id) ?? 0, weight));
+  };
+
+  const remove = (id: string) => {
+    const words = itemWords.get(id);
+    if (!words) return;
+    for (const word of words) {
+      const items = postings.get(word);
+      items?.delete(id);
+      if (items && items.size > 0) continue;
+      postings.delete(word);
+      for (const gram of trigrams(word, true)) {
+        const words = gramWords.get(gram);
+        words?.delete(word);
+        if (words?.size === 0) gramWords.delete(gram);
+      }
+    }
+    itemWords.delete(id);
+  };
+
+  const upsert = (item: MediaItem) => {
+    remove(item.id);
+    const fields: Record<FieldName, string> = {
+      name: item.name,
+      tags: item.tags.join(" "),
+      host: hostnameOf(item.url),
+      notes: item.notes ?? "",
+      url: item.url,
+    };
+    const words = new Set<string>();
+    for (const field of Object.keys(fields) as FieldName[]) {
+      for (const word of tokenize(fields[field])) {
+        addWord(word, item.id, FIELD_WEIGHTS[field]);
+        words.add(word);
+      }
+    }
+    itemWords.set(item.id, words);
+  };
+
+  // Words sharing enough trigrams with the term; one edit breaks at most three
+  const candidateWords = (term: string): Iterable<string> => {
+    if (term.length < 3) {
+      return Array.from(postings.keys()).filter((w) => w.includes(term));
+    }
+    const grams = trigrams(term, false);
+    const needed = Math.max(1, grams.length - 3 * allowedTypos(term));
+    const shared = new Map<string, number>();
+    for (const gram of grams) {
+      for (const word of gramWords.get(gram) ?? []) {
+        shared.set(word, (shared.get(word) ?? 0) + 1);
+      }
+    }
+    return Array.from(shared)
+      .filter(([, n]) => n >= needed)
+      .map(([word]) => word);
+  };
+
+  const search = (query: string) => {
+    let scores: Map<string, number> | null = null;
+    for (const term of tokenize(query)) {
+      const termScores = new Map<string, number>();
+      for (const word of candidateWords(term)) {
+        const score = termScore(term, word);
+        if (!score) continue;
+        for (const [id, weight] of postings.get(word) ?? []) {
+          const value = score * weight;
+          if (value > (termScores.get(id) ?? 0)) termScores.set(id, value);
+        }
+      }
+
+      if (scores === null) {
+        scores = termScores;
+      } else {
+        const both = new Map<string, number>();
+        for (const [id, value] of termScores) {
+          const previous = scores.get(id);
+          if (previous !== undefined) both.set(id, previous + value);
+        }
+        scores = both;
+      }
+      if (scores.size === 0) break;
+    }
+    return scores ?? new Map<string, number>();
+  };
+
+  return { upsert, remove, search };
+}
+
+// [start, end) ranges of `text` matched by the query, for highlighting
+export function matchRanges(text: string, query: string): [number, number][] {
+  const terms = tokenize(query);
+  const ranges: [number, number][] = [];
+  if (terms.length === 0) return ranges;
+
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const word = match[0].toLowerCase();
+    const start = match.index ?? 0;
+    const term = terms.find((t) => termScore(t, word) > 0);
+    if (!term) continue;
+    const at = word.indexOf(term);
+    if (at !== -1) {
+      ranges.push([start + at, start + at + term.length]);
+      continue;
+    }
+    // A typo match has no exact span; mark the whole word
+    ranges.push([start, start + word.length]);
+  }
+  return ranges;
+}
@@ -0,0 +1,66 @@
+// Cross-tab change notifications. Stores broadcast after their own writes and
+// apply what other tabs send without broadcasting again (no echo loops).
+
+import type { MediaItem } from "@/hooks/use-media-store";
+import type { VaultKeyPair } from "@/lib/crypto";
+
+export type SyncMessage =
+  // public items added or edited
+  | { type: "media-put"; items: MediaItem[] }
+  | { type: "media-deleted"; ids: string[] }
+  // library replaced wholesale (overwrite import)
+  | { type: "media-reset" }
+  // hidden store changed; receivers re-read it (plaintext never crosses tabs)
+  | { type: "hidden-changed" }
+  | { type: "boards-changed" }
+  | { type: "views-changed" }
+  | { type: "trash-changed" }
+  | { type: "vault-unlocked"; keys: VaultKeyPair; until: number | null }
+  | { type: "vault-locked" };
+
+const CHANNEL_NAME = "previewz-sync";
+let channel: BroadcastChannel | null = null;
+
+function getChannel(): BroadcastChannel | null {
+  if (typeof window === "undefined" || typeof BroadcastChannel === "undefined")
+    return null;
+  channel ??= new BroadcastChannel(CHANNEL_NAME);
+  return channel;
+}
+
+export function broadcast(message: SyncMessage) {
+  try {
+    getChannel()?.postMessage(message);
+  } catch {}
+}
+
+export function onBroadcast(listener: (message: SyncMessage) => void) {
+  const ch = getChannel();
+  if (!ch) return () => {};
+  const handler = (e: MessageEvent<SyncMessage>) => listener(e.data);
+  ch.addEventListener("message", handler);
+  return () => ch.removeEventListener("message", handler);
+}
+
+// Fires when another tab writes the localStorage key
+export function onStorageKey(
+  key: string,
+  listener: (value: string | null) => void
+) {
+  if (typeof window === "undefined") return () => {};
+  const handler = (e: StorageEvent) => {
+    if (e.storageArea === localStorage && e.key === key) listener(e.newValue);
+  };
+  window.addEventListener("storage", handler);
+  return () => window.removeEventListener("storage", handler);
+}
+
+// Re-reads a zustand persist store when another tab saves it
+export function syncPersistedStore(
+  store: { persist: { rehydrate: () => unknown } },
+  key: string
+) {
+  return onStorageKey(key, () => {
+    store.persist.rehydrate();
+  });
+}
@@ -16,20 +16,28 @@ export function isEditableElement(el: Element | null): boolean {
   return role === "textbox" || role === "combobox" || role === "searchbox";
 }
 
-// Extracts the first http(s) URL from text
-export function extractFirstHttpUrl(text: string): string | null {
-  if (!text) return null;
+// Extracts every http(s) URL from text (pasted or dropped)
+export function extractHttpUrls(text: string): string[] {
+  if (!text) return [];
   // Simple URL finder for http/https
   const regex = /https?:\/\/[^\s)\]}"']+/gi;
-  const match = text.match(regex);
-  if (!match || match.length === 0) return null;
-  // Trim trailing punctuation
-  const cleaned = match[0].replace(/[),.;!?:\]]+$/g, "");
-  try {
-    const u = new URL(cleaned);
-    if (u.protocol === "http:" || u.protocol === "https:") return u.toString();
-  } catch {}
-  return null;
+  const urls: string[] = [];
+  for (const match of text.match(regex) ?? []) {
+    // Trim trailing punctuation
+    const cleaned = match.replace(/[),.;!?:\]]+$/g, "");
+    try {
+      const u = new URL(cleaned);
+      if (u.protocol === "http:" || u.protocol === "https:") {
+        urls.push(u.toString());
+      }
+    } catch {}
+  }
+  return urls;
+}
+
+// Extracts the first http(s) URL from text
+export function extractFirstHttpUrl(text: string): string | null {
+  return extractHttpUrls(text)[0] ?? null;
 }
 
 // Reads clipboard text from a paste event and returns a URL if present
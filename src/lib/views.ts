@@ -0,0 +1,67 @@
+// Home page filters, as saved in smart views and mirrored into the URL
+// (?q=...&tag=a&tag=b&format=video&fav=1) so a filtered page can be
+// bookmarked
+
+export interface ViewFilters {
+  query: string;
+  tags: string[];
+  formats: string[];
+  favoritesOnly: boolean;
+}
+
+export const EMPTY_FILTERS: ViewFilters = {
+  query: "",
+  tags: [],
+  formats: [],
+  favoritesOnly: false,
+};
+
+export function hasFilters(filters: ViewFilters): boolean {
+  return (
+    !!filters.query.trim() ||
+    filters.tags.length > 0 ||
+    filters.formats.length > 0 ||
+    filters.favoritesOnly
+  );
+}
+
+export function sameFilters(a: ViewFilters, b: ViewFilters): boolean {
+  const sameSet = (x: string[], y: string[]) =>
+    x.length === y.length && x.every((v) => y.includes(v));
+  return (
+    a.query.trim() === b.query.trim() &&
+    sameSet(a.tags, b.tags) &&
+    sameSet(a.formats, b.formats) &&
+    a.favoritesOnly === b.favoritesOnly
+  );
+}
+
+export function filtersFromUrl(): ViewFilters {
+  if (typeof window === "undefined") return EMPTY_FILTERS;
+  const params = new URLSearchParams(window.location.search);
+  return {
+    query: params.get("q") ?? "",
+    tags: params.getAll("tag"),
+    formats: params.getAll("format"),
+    favoritesOnly: params.get("fav") === "1",
+  };
+}
+
+// Replaces (not pushes) the history entry, so typing does not flood Back
+export function writeFiltersToUrl(filters: ViewFilters) {
+  const params = new URLSearchParams(window.location.search);
+  for (const key of ["q", "tag", "format", "fav"]) params.delete(key);
+  if (filters.query) params.set("q", filters.query);
+  for (const tag of filters.tags) params.append("tag", tag);
+  for (const format of filters.formats) params.append("format", format);
+  if (filters.favoritesOnly) params.set("fav", "1");
+
+  const search = params.toString();
+  const url = `${window.location.pathname}${search ? `?${search}` : ""}${window.location.hash}`;
+  if (
+    url !==
+    `${window.location.pathname}${window.location.search}${window.location.hash}`
+  ) {
+    window.history.replaceState(window.history.state, "", url);
+  }
+}
@@ -1,12 +1,20 @@
 import { useEffect, useMemo, useState } from "react";
 import { useMediaStore } from "@/hooks/use-media-store";
 import { useVaultStore } from "@/hooks/use-vault-store";
+import { useLayoutStore } from "@/hooks/use-layout-store";
+import {
+  formatCountdown,
+  useLockoutCountdown,
+} from "@/hooks/use-lockout-countdown";
 import { AddMediaModal } from "@/components/add-media-modal";
 import { MediaGallery } from "@/components/media-gallery";
 import { CommandPalette } from "@/components/command-pallete";
 import { TagFilter } from "@/components/tag-filter";
 import { FormatFilter } from "@/components/format-filter";
+import { FavoritesFilter } from "@/components/favorites-filter";
 import { LayoutSwitcher } from "@/components/layout-switcher";
+import { SortSwitcher } from "@/components/sort-switcher";
+import { GroupSwitcher } from "@/components/group-switcher";
 import { Button } from "@/components/ui/button";
 import { ArrowLeft, Lock, Plus, Search } from "lucide-react";
 import {
@@ -16,12 +24,18 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { CredentialPicker, PasscodeInput } from "@/components/passcode-input";
 import {
-  InputOTP,
-  InputOTPGroup,
-  InputOTPSlot,
-} from "@/components/ui/input-otp";
+  credentialOf,
+  DEFAULT_CREDENTIAL,
+  describeCredential,
+  isCredentialComplete,
+  type VaultCredential,
+} from "@/lib/crypto";
+import { sortItems } from "@/lib/media";
+import { matchesQuery, parseQuery } from "@/lib/query";
 import { toast } from "sonner";
+import { undoAction, useHistoryStore } from "@/hooks/use-history-store";
 import { Switch } from "@/components/ui/switch";
 import { Checkbox } from "@/components/ui/checkbox";
 
@@ -34,19 +48,23 @@ function HiddenGate({ children }: { children: React.ReactNode }) {
     setupPasscode,
     rememberTTL,
     setRememberTTL,
+    attempts,
+    wipeAfterFailures,
     lock,
   } = useVaultStore();
+  const lockoutSeconds = useLockoutCountdown();
   const [open, setOpen] = useState(true);
   const [value, setValue] = useState("");
   const [setupValue, setSetupValue] = useState("");
   const [setupStep, setSetupStep] = useState<0 | 1>(0);
+  const [setupCredential, setSetupCredential] =
+    useState<VaultCredential>(DEFAULT_CREDENTIAL);
+  const credential = credentialOf(config);
 
   useEffect(() => {
+    // Locks this tab only when not remembering the session; other tabs keep
+    // their unlock
     hydrateFromSession();
-    if (!rememberTTL) {
-      // Force lock when not remembering session
-      lock();
-    }
   }, [hydrateFromSession]);
 
   useEffect(() => {
@@ -54,15 +72,23 @@ function HiddenGate({ children }: { children: React.ReactNode }) {
   }, [isUnlocked]);
 
   const onSubmit = async () => {
-    if (value.length !== 5) return;
+    if (!isCredentialComplete(value, credential) || lockoutSeconds > 0) return;
     const ok = await verifyAndUnlock(value);
-    if (!ok) toast.error("Invalid passcode");
+    if (!ok) {
+      if (!useVaultStore.getState().config) {
+        toast.error("Hidden vault wiped", {
+          description: "Too many failed attempts",
+        });
+      } else {
+        toast.error("Invalid passcode");
+      }
+    }
     setValue("");
   };
 
   const onSetupNext = async () => {
-    if (setupValue.length !== 5) return;
-    await setupPasscode(setupValue);
+    if (!isCredentialComplete(setupValue, setupCredential)) return;
+    await setupPasscode(setupValue, setupCredential);
     toast.success("Vault configured");
     setSetupValue("");
   };
@@ -96,7 +122,7 @@ function HiddenGate({ children }: { children: React.ReactNode }) {
               {setupStep === 0 ? (
                 <div className="space-y-4">
                   <p className="text-sm text-muted-foreground">
-                    Set a 5‑digit passcode to protect your Hidden Vault. You’ll
+                    Set a PIN or passphrase to protect your Hidden Vault. You’ll
                     need it to unlock each session.
                   </p>
                   <div className="flex justify-end">
@@ -107,22 +133,29 @@ function HiddenGate({ children }: { children: React.ReactNode }) {
                 </div>
               ) : (
                 <div className="space-y-4">
-                  <p className="text-sm">Enter a 5‑digit passcode</p>
-                  <InputOTP
-                    maxLength={5}
+                  <CredentialPicker
+                    credential={setupCredential}
+                    onChange={(next) => {
+                      setSetupCredential(next);
+                      setSetupValue("");
+                    }}
+                  />
+                  <p className="text-sm">
+                    Enter a {describeCredential(setupCredential)}
+                  </p>
+                  <PasscodeInput
+                    key={describeCredential(setupCredential)}
+                    credential={setupCredential}
                     value={setupValue}
                     onChange={setSetupValue}
-                  >
-                    <InputOTPGroup>
-                      {[0, 1, 2, 3, 4].map((i) => (
-                        <InputOTPSlot key={i} index={i} />
-                      ))}
-                    </InputOTPGroup>
-                  </InputOTP>
+                    onSubmit={onSetupNext}
+                  />
                   <div className="flex justify-end">
                     <Button
                       onClick={onSetupNext}
-                      disabled={setupValue.length !== 5}
+                      disabled={
+                        !isCredentialComplete(setupValue, setupCredential)
+                      }
                     >
                       Save
                     </Button>
@@ -136,13 +169,13 @@ function HiddenGate({ children }: { children: React.ReactNode }) {
                 <DialogTitle>Unlock Hidden Vault</DialogTitle>
               </DialogHeader>
               <div className="space-y-4">
-                <InputOTP maxLength={5} value={value} onChange={setValue}>
-                  <InputOTPGroup>
-                    {[0, 1, 2, 3, 4].map((i) => (
-                      <InputOTPSlot key={i} index={i} />
-                    ))}
-                  </InputOTPGroup>
-                </InputOTP>
+                <PasscodeInput
+                  credential={credential}
+                  value={value}
+                  onChange={setValue}
+                  onSubmit={onSubmit}
+                  autoFocus
+                />
                 <label className="flex items-center gap-2 text-xs text-muted-foreground">
                   <Checkbox
                     checked={rememberTTL}
@@ -151,8 +184,26 @@ function HiddenGate({ children }: { children: React.ReactNode }) {
                   />
                   Remember for 20 minutes (this session)
                 </label>
+                {lockoutSeconds > 0 && (
+                  <p className="text-sm text-destructive">
+                    Too many failed attempts. Try again in{" "}
+                    {formatCountdown(lockoutSeconds)}
+                  </p>
+                )}
+                {wipeAfterFailures !== null && attempts > 0 && (
+                  <p className="text-xs text-amber-600">
+                    {wipeAfterFailures - attempts} attempt(s) left before the
+                    hidden vault is wiped
+                  </p>
+                )}
                 <div className="flex justify-end">
-                  <Button onClick={onSubmit} disabled={value.length !== 5}>
+                  <Button
+                    onClick={onSubmit}
+                    disabled={
+                      !isCredentialComplete(value, credential) ||
+                      lockoutSeconds > 0
+                    }
+                  >
                     Unlock
                   </Button>
                 </div>
@@ -168,6 +219,7 @@ function HiddenGate({ children }: { children: React.ReactNode }) {
 
 export default function HiddenPage() {
   const { items, hiddenItems, allTags, unhideItem } = useMediaStore();
+  const sortBy = useLayoutStore((state) => state.sortBy);
   const [selectMode, setSelectMode] = useState(false);
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const { blurHidden, setBlurHidden, unlockUntil, lock } = useVaultStore();
@@ -175,6 +227,7 @@ export default function HiddenPage() {
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [selectedFormats, setSelectedFormats] = useState<string[]>([]);
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
 
   const visibleHidden = useMemo(() => hiddenItems, [hiddenItems]);
   const hiddenTags = useMemo(
@@ -186,27 +239,26 @@ export default function HiddenPage() {
     [visibleHidden]
   );
 
+  const query = useMemo(() => parseQuery(searchQuery), [searchQuery]);
+
   const oppositeCount = useMemo(() => {
-    const q = searchQuery.toLowerCase();
-    return items.filter(
-      (i) =>
-        i.name.toLowerCase().includes(q) ||
-        i.tags.some((t) => t.toLowerCase().includes(q))
-    ).length;
-  }, [items, searchQuery]);
+    return items.filter((i) => matchesQuery(i, query)).length;
+  }, [items, query]);
+
+  const sortedHidden = useMemo(
+    () => sortItems(visibleHidden, sortBy),
+    [visibleHidden, sortBy]
+  );
 
-  const filteredHidden = visibleHidden.filter((item) => {
-    const matchesSearch =
-      item.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      item.tags.some((tag) =>
-        tag.toLowerCase().includes(searchQuery.toLowerCase())
-      );
+  const filteredHidden = sortedHidden.filter((item) => {
+    const matchesSearch = matchesQuery(item, query);
     const matchesTags =
       selectedTags.length === 0 ||
       selectedTags.some((tag) => item.tags.includes(tag));
     const matchesFormats =
       selectedFormats.length === 0 || selectedFormats.includes(item.format);
-    return matchesSearch && matchesTags && matchesFormats;
+    const matchesFavorites = !favoritesOnly || !!item.favorite;
+    return matchesSearch && matchesTags && matchesFormats && matchesFavorites;
   });
 
   // Auto-lock when TTL expires
@@ -228,18 +280,26 @@ export default function HiddenPage() {
   };
 
   const bulkUnhide = async () => {
-    for (const id of selectedIds) await unhideItem(id);
+    await useHistoryStore
+      .getState()
+      .batch(`Unhide ${selectedIds.length} item(s)`, async () => {
+        for (const id of selectedIds) await unhideItem(id);
+      });
     setSelectedIds([]);
     setSelectMode(false);
     toast.success("Moved to Public", {
       description: "Selected items unhidden",
+      action: undoAction(),
     });
   };
 
   return (
     <HiddenGate>
       <div className="min-h-screen bg-background">
-        <div className="sticky top-0 z-40 border-b border-border/40 bg-background/95 backdrop-blur supports-backdrop-filter:bg-background/60">
+        <div
+          data-page-header
+          className="sticky top-0 z-40 border-b border-border/40 bg-background/95 backdrop-blur supports-backdrop-filter:bg-background/60"
+        >
           <div className="mx-auto max-w-7xl px-4 py-4">
             <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
               <div>
@@ -285,6 +345,10 @@ export default function HiddenPage() {
         <div className="mx-auto max-w-7xl px-4 py-8">
           <div className="mb-8 flex flex-col gap-6">
             <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-6">
+              <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2 w-full sm:w-auto">
+                <GroupSwitcher />
+                <SortSwitcher />
+              </div>
               <LayoutSwitcher />
             </div>
 
@@ -316,13 +380,19 @@ export default function HiddenPage() {
                 )}
               </div>
 
-              {hiddenFormats.length > 0 && (
-                <FormatFilter
-                  formats={hiddenFormats}
-                  selectedFormats={selectedFormats}
-                  onFormatChange={setSelectedFormats}
+              <div className="flex items-center gap-2">
+                {hiddenFormats.length > 0 && (
+                  <FormatFilter
+                    formats={hiddenFormats}
+                    selectedFormats={selectedFormats}
+                    onFormatChange={setSelectedFormats}
+                  />
+                )}
+                <FavoritesFilter
+                  favoritesOnly={favoritesOnly}
+                  onChange={setFavoritesOnly}
                 />
-              )}
+              </div>
             </div>
           </div>
 
@@ -356,6 +426,13 @@ export default function HiddenPage() {
         searchQuery={searchQuery}
         otherScopeCount={searchQuery.trim() ? oppositeCount : undefined}
         otherScopeCountLabel="public items matched (open Home)"
+        isHidden
+        onAddMedia={() => setIsAddModalOpen(true)}
+        onToggleSelectMode={() => {
+          setSelectMode((v) => !v);
+          setSelectedIds([]);
+        }}
+        onFilterTag={(tag) => setSelectedTags([tag])}
       />
     </HiddenGate>
   );
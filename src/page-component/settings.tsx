@@ -1,33 +1,105 @@
 import type React from "react";
 
 import { useState } from "react";
-import { ArrowLeft, Download, Upload, Trash2, Moon, Sun } from "lucide-react";
+import {
+  ArrowLeft,
+  Download,
+  Upload,
+  Trash2,
+  Moon,
+  Sun,
+  KeyRound,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { useMediaStore } from "@/hooks/use-media-store";
+import {
+  type MediaItem,
+  readHiddenItems,
+  useMediaStore,
+} from "@/hooks/use-media-store";
 import { useEffect } from "react";
 import { toast } from "sonner";
 import { Dialog, DialogContent, DialogHeader } from "@/components/ui/dialog";
-import {
-  InputOTP,
-  InputOTPGroup,
-  InputOTPSlot,
-} from "@/components/ui/input-otp";
+import { CredentialPicker, PasscodeInput } from "@/components/passcode-input";
 import { useVaultStore } from "@/hooks/use-vault-store";
-import { verifyPasscode } from "@/lib/crypto";
+import { useBoardStore } from "@/hooks/use-board-store";
+import {
+  formatCountdown,
+  useLockoutCountdown,
+} from "@/hooks/use-lockout-countdown";
 import { Checkbox } from "@/components/ui/checkbox";
+import { ImportPreviewDialog } from "@/components/import-preview-dialog";
+import {
+  BACKUP_VERSION,
+  parseBackup,
+  type Backup,
+  type ImportMode,
+} from "@/lib/backup";
+import {
+  credentialOf,
+  describeCredential,
+  encryptEnvelope,
+  isCredentialComplete,
+  type VaultCredential,
+} from "@/lib/crypto";
+import { DB_NAME, getAllMedia } from "@/lib/db";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 
 // TODO: apply a gap b/w texts and actions, break line with max-width [400px]
 
 export default function SettingsPage() {
-  const { items, hiddenItems } = useMediaStore();
-  const { config, rememberTTL, setRememberTTL, lock } = useVaultStore();
+  const {
+    isLoading,
+    hiddenCount,
+    trash,
+    trashRetentionDays,
+    setTrashRetention,
+    trashAll,
+  } = useMediaStore();
+  // The whole library, not just the pages the gallery has loaded
+  const [items, setItems] = useState<MediaItem[]>([]);
+  const [itemsLoaded, setItemsLoaded] = useState(false);
+  const {
+    config,
+    rememberTTL,
+    setRememberTTL,
+    changePasscode,
+    openKeys,
+    wipeAfterFailures,
+    setWipeAfterFailures,
+    lock,
+  } = useVaultStore();
+  const lockoutSeconds = useLockoutCountdown();
+  const credential = credentialOf(config);
   const [theme, setTheme] = useState<"light" | "dark">("light");
   const [mounted, setMounted] = useState(false);
   const [openClearDialog, setOpenClearDialog] = useState(false);
-  const [openImportDialog, setOpenImportDialog] = useState(false);
-  const [pendingImport, setPendingImport] = useState<any[]>([]);
+  const [pendingImport, setPendingImport] = useState<Backup | null>(null);
   const [openExportDialog, setOpenExportDialog] = useState(false);
   const [otp, setOtp] = useState("");
+  const [openPasscodeDialog, setOpenPasscodeDialog] = useState(false);
+  const [currentCode, setCurrentCode] = useState("");
+  const [newCode, setNewCode] = useState("");
+  const [confirmCode, setConfirmCode] = useState("");
+  const [newCredential, setNewCredential] = useState<VaultCredential | null>(
+    null
+  );
+  const nextCredential = newCredential ?? credential;
+  const [isChangingCode, setIsChangingCode] = useState(false);
+
+  useEffect(() => {
+    getAllMedia()
+      .then((all) => {
+        setItems(all);
+        setItemsLoaded(true);
+      })
+      .catch(() => {});
+  }, []);
 
   useEffect(() => {
     const savedTheme = localStorage.getItem("theme") as "light" | "dark" | null;
@@ -56,7 +128,7 @@ export default function SettingsPage() {
   };
 
   const triggerExport = () => {
-    if (hiddenItems.length > 0) {
+    if (hiddenCount > 0) {
       setOpenExportDialog(true);
     } else {
       doExport(false);
@@ -64,29 +136,62 @@ export default function SettingsPage() {
   };
 
   const doExport = async (includeHidden: boolean) => {
+    let hiddenItems: MediaItem[] = [];
     if (includeHidden) {
       if (!config) {
         toast.error("Hidden vault not configured");
         return;
       }
-      if (otp.length !== 5) {
-        toast.error("Enter 5-digit passcode");
+      if (!isCredentialComplete(otp, credential)) {
+        toast.error(`Enter your ${describeCredential(credential)}`);
         return;
       }
-      const ok = await verifyPasscode(otp, config);
-      if (!ok) {
-        toast.error("Invalid passcode");
+      if (lockoutSeconds > 0) {
+        toast.error("Too many failed attempts", {
+          description: `Try again in ${formatCountdown(lockoutSeconds)}`,
+        });
+        return;
+      }
+      // Decrypts with keys opened here; the vault itself stays as it is
+      try {
+        const keys = await openKeys(otp);
+        if (!keys) {
+          toast.error("Invalid passcode");
+          setOtp("");
+          return;
+        }
+        hiddenItems = await readHiddenItems(keys.privateKey);
+      } catch {
+        toast.error("Export failed", {
+          description: "Could not read the hidden vault",
+        });
         return;
       }
     }
 
+    // Hidden items only leave the device encrypted under the passcode; the
+    // vault's verification hash is never exported
     const payload: any = {
-      version: "1.1",
+      version: BACKUP_VERSION,
       exportedAt: new Date().toISOString(),
       items,
+      boards: useBoardStore.getState().boards,
     };
-    if (includeHidden) payload.hiddenItems = hiddenItems;
-    if (config) payload.vaultConfig = config;
+    if (includeHidden) {
+      try {
+        payload.vault = await encryptEnvelope(
+          { hiddenItems },
+          otp,
+          credential,
+          config?.iterations
+        );
+      } catch {
+        toast.error("Export failed", {
+          description: "Could not encrypt the hidden items",
+        });
+        return;
+      }
+    }
 
     const dataStr = JSON.stringify(payload, null, 2);
     const dataBlob = new Blob([dataStr], { type: "application/json" });
@@ -109,51 +214,90 @@ export default function SettingsPage() {
     setOtp("");
   };
 
+  // The command palette's Export action links to /settings?export
+  useEffect(() => {
+    if (isLoading || !itemsLoaded) return;
+    const params = new URLSearchParams(window.location.search);
+    if (!params.has("export")) return;
+    params.delete("export");
+    const search = params.toString();
+    window.history.replaceState(
+      window.history.state,
+      "",
+      `${window.location.pathname}${search ? `?${search}` : ""}`
+    );
+    triggerExport();
+  }, [isLoading, itemsLoaded]);
+
+  const resetPasscodeDialog = () => {
+    setCurrentCode("");
+    setNewCode("");
+    setConfirmCode("");
+    setNewCredential(null);
+  };
+
+  const doChangePasscode = async () => {
+    if (newCode !== confirmCode) {
+      toast.error("New passcodes do not match");
+      return;
+    }
+    if (lockoutSeconds > 0) {
+      toast.error("Too many failed attempts", {
+        description: `Try again in ${formatCountdown(lockoutSeconds)}`,
+      });
+      return;
+    }
+    setIsChangingCode(true);
+    try {
+      const ok = await changePasscode(currentCode, newCode, nextCredential);
+      if (!ok) {
+        toast.error("Invalid passcode");
+        setCurrentCode("");
+        return;
+      }
+      // Any remembered unlock belonged to the old passcode
+      lock();
+      toast.success("Passcode changed", {
+        description: "Hidden items re-encrypted with the new passcode",
+      });
+      setOpenPasscodeDialog(false);
+      resetPasscodeDialog();
+    } catch {
+      toast.error("Error", { description: "Failed to change passcode" });
+    } finally {
+      setIsChangingCode(false);
+    }
+  };
+
   const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
+    // Allow picking the same file again after cancelling the preview
+    event.target.value = "";
+
     try {
       const text = await file.text();
-      const data = JSON.parse(text);
-
-      if (!data.items || !Array.isArray(data.items)) {
-        throw new Error("Invalid backup file format");
-      }
-
-      // If backup contains hidden items or a vault config, we’ll route via Home to perform import there (reuse existing mechanism);
-      // we store the whole payload and the mode in sessionStorage for Home to process.
-      const payload = data;
-
-      // If there are existing items, ask the user whether to merge or overwrite
-      if (items.length > 0) {
-        setPendingImport(payload.items);
-        setOpenImportDialog(true);
-      } else {
-        // No existing items, proceed with overwrite-like behavior by default
-        sessionStorage.setItem("importedData", JSON.stringify(payload));
-        sessionStorage.setItem("importMode", "overwrite");
-        window.location.href = "/";
-        toast.success("Import started", {
-          description: "Redirecting to add imported items...",
-        });
-      }
+      // Migrates older versions; throws on anything that isn't a backup
+      setPendingImport(parseBackup(JSON.parse(text)));
     } catch (error) {
       toast.error("Import failed", {
         description:
-          error instanceof Error ? error.message : "Failed to import backup",
+          error instanceof SyntaxError
+            ? "Backup file is not valid JSON"
+            : error instanceof Error
+              ? error.message
+              : "Failed to import backup",
       });
     }
   };
 
-  const proceedImport = (mode: "merge" | "overwrite") => {
-    // Store full payload (we only saved items in pendingImport, but we’ll reconstruct minimal payload)
-    const payload = {
-      items: pendingImport,
-    } as any;
-    sessionStorage.setItem("importedData", JSON.stringify(payload));
+  const proceedImport = (mode: ImportMode) => {
+    // Home performs the writes (and the vault passcode prompt) with the
+    // migrated backup
+    sessionStorage.setItem("importedData", JSON.stringify(pendingImport));
     sessionStorage.setItem("importMode", mode);
-    setOpenImportDialog(false);
+    setPendingImport(null);
     window.location.href = "/";
     toast.success("Import started", {
       description:
@@ -163,6 +307,19 @@ export default function SettingsPage() {
     });
   };
 
+  const handleTrashAll = async () => {
+    try {
+      await trashAll();
+      setItems([]);
+      setOpenClearDialog(false);
+      toast.success("Moved to Trash", {
+        description: "Everything can be restored from the Trash",
+      });
+    } catch {
+      toast.error("Error", { description: "Failed to move items to Trash" });
+    }
+  };
+
   const handleClearAll = () => {
     console.log("Clearing all data...");
 
@@ -170,7 +327,7 @@ export default function SettingsPage() {
     useMediaStore.getState().closeDB();
 
     // Clear DB
-    const request = indexedDB.deleteDatabase("PreviewzDB");
+    const request = indexedDB.deleteDatabase(DB_NAME);
     request.onsuccess = () => {
       localStorage.clear();
       toast.success("All data cleared", {
@@ -194,8 +351,8 @@ export default function SettingsPage() {
           <DialogHeader>Confirm Clear All Data</DialogHeader>
           <div className="space-y-4">
             <p>
-              Are you sure you want to delete all media? This action cannot be
-              undone.
+              Move every item to the Trash, or erase all data permanently.
+              Erasing cannot be undone.
             </p>
             <div className="flex justify-end gap-2 pt-4">
               <Button
@@ -204,8 +361,11 @@ export default function SettingsPage() {
               >
                 Cancel
               </Button>
+              <Button variant="secondary" onClick={handleTrashAll}>
+                Move all to Trash
+              </Button>
               <Button variant="destructive" onClick={handleClearAll}>
-                Confirm
+                Erase permanently
               </Button>
             </div>
           </div>
@@ -218,8 +378,7 @@ export default function SettingsPage() {
           <DialogHeader>Export Data</DialogHeader>
           <div className="space-y-4">
             <p className="text-sm">
-              Hidden items detected ({hiddenItems.length}). Choose what to
-              export:
+              Hidden items detected ({hiddenCount}). Choose what to export:
             </p>
             <div className="flex gap-2">
               <Button
@@ -240,19 +399,20 @@ export default function SettingsPage() {
             </div>
             <div className="space-y-2">
               <p className="text-sm text-muted-foreground">
-                Passcode required to export hidden items
+                Your {describeCredential(credential)} is required to export
+                hidden items
               </p>
-              <InputOTP maxLength={5} value={otp} onChange={setOtp}>
-                <InputOTPGroup>
-                  {[0, 1, 2, 3, 4].map((i) => (
-                    <InputOTPSlot key={i} index={i} />
-                  ))}
-                </InputOTPGroup>
-              </InputOTP>
+              <PasscodeInput
+                credential={credential}
+                value={otp}
+                onChange={setOtp}
+              />
               <div className="flex justify-end">
                 <Button
                   onClick={() => doExport(true)}
-                  disabled={otp.length !== 5}
+                  disabled={
+                    !isCredentialComplete(otp, credential) || lockoutSeconds > 0
+                  }
                 >
                   Export all (with hidden)
                 </Button>
@@ -262,48 +422,93 @@ export default function SettingsPage() {
         </DialogContent>
       </Dialog>
 
-      {/* Import mode choice dialog */}
-      <Dialog open={openImportDialog} onOpenChange={setOpenImportDialog}>
+      {/* Change passcode dialog */}
+      <Dialog
+        open={openPasscodeDialog}
+        onOpenChange={(open) => {
+          setOpenPasscodeDialog(open);
+          if (!open) resetPasscodeDialog();
+        }}
+      >
         <DialogContent className="max-w-lg">
-          <DialogHeader>Existing Data Detected</DialogHeader>
+          <DialogHeader>Change Vault Passcode</DialogHeader>
           <div className="space-y-4">
-            <p>
-              Your library already has {items.length} item(s). How would you
-              like to handle the import?
-            </p>
-            <ul className="list-disc ml-6 text-sm text-muted-foreground space-y-1">
-              <li>
-                Merge: Keep current items and add new ones (duplicates by URL
-                will be skipped).
-              </li>
-              <li>
-                Overwrite: Remove all current items and replace with the
-                imported items.
-              </li>
-            </ul>
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                Current {describeCredential(credential)}
+              </p>
+              <PasscodeInput
+                credential={credential}
+                value={currentCode}
+                onChange={setCurrentCode}
+              />
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">New passcode type</p>
+              <CredentialPicker
+                credential={nextCredential}
+                onChange={(next) => {
+                  setNewCredential(next);
+                  setNewCode("");
+                  setConfirmCode("");
+                }}
+              />
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                New {describeCredential(nextCredential)}
+              </p>
+              <PasscodeInput
+                key={`new-${describeCredential(nextCredential)}`}
+                credential={nextCredential}
+                value={newCode}
+                onChange={setNewCode}
+              />
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                Confirm new {describeCredential(nextCredential)}
+              </p>
+              <PasscodeInput
+                key={`confirm-${describeCredential(nextCredential)}`}
+                credential={nextCredential}
+                value={confirmCode}
+                onChange={setConfirmCode}
+                onSubmit={doChangePasscode}
+              />
+            </div>
             <div className="flex justify-end gap-2 pt-4">
               <Button
                 variant="outline"
-                onClick={() => setOpenImportDialog(false)}
+                onClick={() => setOpenPasscodeDialog(false)}
               >
                 Cancel
               </Button>
               <Button
-                variant="secondary"
-                onClick={() => proceedImport("merge")}
-              >
-                Merge
-              </Button>
-              <Button
-                variant="destructive"
-                onClick={() => proceedImport("overwrite")}
+                onClick={doChangePasscode}
+                disabled={
+                  isChangingCode ||
+                  lockoutSeconds > 0 ||
+                  !isCredentialComplete(currentCode, credential) ||
+                  !isCredentialComplete(newCode, nextCredential) ||
+                  !isCredentialComplete(confirmCode, nextCredential)
+                }
               >
-                Overwrite
+                {isChangingCode ? "Re-encrypting..." : "Change passcode"}
               </Button>
             </div>
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* Import preview (dry-run) dialog */}
+      <ImportPreviewDialog
+        backup={pendingImport}
+        existing={items}
+        hiddenCount={hiddenCount}
+        onClose={() => setPendingImport(null)}
+        onConfirm={proceedImport}
+      />
       <div className="min-h-screen bg-background">
         <div className="sticky top-0 z-40 border-b border-border/40 bg-background/95 backdrop-blur supports-backdrop-filter:bg-background/60">
           <div className="mx-auto max-w-2xl px-4 py-4">
@@ -389,6 +594,63 @@ export default function SettingsPage() {
                     {rememberTTL ? "On" : "Off"}
                   </label>
                 </div>
+                {/* Change passcode */}
+                {config && (
+                  <div className="flex items-center justify-between pb-4 border-b border-border/40">
+                    <div>
+                      <p className="font-medium text-foreground">
+                        Vault Passcode
+                      </p>
+                      <p className="text-sm text-muted-foreground wrap-break-word max-w-[400px]">
+                        Change the passcode and re-encrypt hidden items with a
+                        new key.
+                      </p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setOpenPasscodeDialog(true)}
+                      className="gap-2 bg-transparent"
+                    >
+                      <KeyRound className="h-4 w-4" />
+                      Change
+                    </Button>
+                  </div>
+                )}
+                {/* Wipe after failed attempts */}
+                <div className="flex items-center justify-between pb-4 border-b border-border/40">
+                  <div>
+                    <p className="font-medium text-foreground">
+                      Wipe After Failed Attempts
+                    </p>
+                    <p className="text-sm text-muted-foreground wrap-break-word max-w-[400px]">
+                      Permanently delete hidden items and the passcode after
+                      this many wrong passcodes in a row.
+                    </p>
+                  </div>
+                  <Select
+                    value={
+                      wipeAfterFailures === null
+                        ? "off"
+                        : String(wipeAfterFailures)
+                    }
+                    onValueChange={(value) =>
+                      setWipeAfterFailures(
+                        value === "off" ? null : Number(value)
+                      )
+                    }
+                  >
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="off">Off</SelectItem>
+                      <SelectItem value="5">5</SelectItem>
+                      <SelectItem value="10">10</SelectItem>
+                      <SelectItem value="20">20</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
                 {/* Export */}
                 <div className="flex items-center justify-between pb-4 border-b border-border/40">
                   <div>
@@ -437,6 +699,43 @@ export default function SettingsPage() {
                   </label>
                 </div>
 
+                {/* Trash retention */}
+                <div className="flex items-center justify-between pb-4 border-b border-border/40">
+                  <div>
+                    <p className="font-medium text-foreground">
+                      Trash Retention
+                    </p>
+                    <p className="text-sm text-muted-foreground wrap-break-word max-w-[400px]">
+                      Deleted items are purged after this many days.{" "}
+                      <a href="/trash" className="underline">
+                        Open Trash ({trash.length})
+                      </a>
+                    </p>
+                  </div>
+                  <Select
+                    value={
+                      trashRetentionDays === null
+                        ? "never"
+                        : String(trashRetentionDays)
+                    }
+                    onValueChange={(value) =>
+                      setTrashRetention(
+                        value === "never" ? null : Number(value)
+                      )
+                    }
+                  >
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="7">7 days</SelectItem>
+                      <SelectItem value="30">30 days</SelectItem>
+                      <SelectItem value="90">90 days</SelectItem>
+                      <SelectItem value="never">Never</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
                 {/* Clear All */}
                 <div className="flex items-center justify-between">
                   <div>
@@ -444,7 +743,7 @@ export default function SettingsPage() {
                       Clear All Data
                     </p>
                     <p className="text-sm text-muted-foreground">
-                      Delete all media permanently
+                      Move all media to the Trash or erase it permanently
                     </p>
                   </div>
                   <Button
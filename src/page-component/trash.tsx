@@ -0,0 +1,257 @@
+import { useEffect, useState } from "react";
+import { type TrashEntry, useMediaStore } from "@/hooks/use-media-store";
+import { useVaultStore } from "@/hooks/use-vault-store";
+import {
+  formatCountdown,
+  useLockoutCountdown,
+} from "@/hooks/use-lockout-countdown";
+import { PasscodeInput } from "@/components/passcode-input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import { credentialOf, isCredentialComplete } from "@/lib/crypto";
+import { ArrowLeft, Lock, RotateCcw, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { undoAction } from "@/hooks/use-history-store";
+
+const DAY_MS = 24 * 60 * 60_000;
+
+function daysLeft(entry: TrashEntry, retentionDays: number | null) {
+  if (retentionDays === null) return null;
+  const left = entry.deletedAt + retentionDays * DAY_MS - Date.now();
+  return Math.max(0, Math.ceil(left / DAY_MS));
+}
+
+// Unlocks the vault in place so trashed hidden items can be listed
+function VaultTrashUnlock({ count }: { count: number }) {
+  const { config, verifyAndUnlock } = useVaultStore();
+  const lockoutSeconds = useLockoutCountdown();
+  const [value, setValue] = useState("");
+  const credential = credentialOf(config);
+
+  const onSubmit = async () => {
+    if (!isCredentialComplete(value, credential) || lockoutSeconds > 0) return;
+    const ok = await verifyAndUnlock(value);
+    if (!ok) toast.error("Invalid passcode");
+    setValue("");
+  };
+
+  return (
+    <div className="rounded-lg border border-border/40 p-4 space-y-3">
+      <p className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Lock className="h-4 w-4" />
+        {count} hidden item(s) in the Trash. Unlock the vault to see them.
+      </p>
+      <PasscodeInput
+        credential={credential}
+        value={value}
+        onChange={setValue}
+        onSubmit={onSubmit}
+      />
+      {lockoutSeconds > 0 && (
+        <p className="text-sm text-destructive">
+          Too many failed attempts. Try again in{" "}
+          {formatCountdown(lockoutSeconds)}
+        </p>
+      )}
+      <Button
+        size="sm"
+        onClick={onSubmit}
+        disabled={
+          !isCredentialComplete(value, credential) || lockoutSeconds > 0
+        }
+      >
+        Unlock
+      </Button>
+    </div>
+  );
+}
+
+export default function TrashPage() {
+  const {
+    trash,
+    lockedTrashCount,
+    trashRetentionDays,
+    restoreItem,
+    purgeItem,
+    emptyTrash,
+  } = useMediaStore();
+  const { config, hydrateFromSession } = useVaultStore();
+  const [openEmptyDialog, setOpenEmptyDialog] = useState(false);
+
+  useEffect(() => {
+    hydrateFromSession();
+  }, [hydrateFromSession]);
+
+  const handleRestore = async (entry: TrashEntry) => {
+    try {
+      await restoreItem(entry.item.id);
+      toast.success("Restored", {
+        description: entry.fromVault
+          ? "Moved back to the hidden vault"
+          : "Moved back to your library",
+        action: undoAction(),
+      });
+    } catch {
+      toast.error("Error", { description: "Failed to restore media" });
+    }
+  };
+
+  const handlePurge = async (entry: TrashEntry) => {
+    try {
+      await purgeItem(entry.item.id);
+      toast.success("Deleted permanently", { description: entry.item.name });
+    } catch {
+      toast.error("Error", { description: "Failed to delete media" });
+    }
+  };
+
+  const handleEmpty = async () => {
+    try {
+      await emptyTrash();
+      setOpenEmptyDialog(false);
+      toast.success("Trash emptied");
+    } catch {
+      toast.error("Error", { description: "Failed to empty the Trash" });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Dialog open={openEmptyDialog} onOpenChange={setOpenEmptyDialog}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Empty Trash</DialogTitle>
+            <DialogDescription>
+              Permanently delete {trash.length} item(s). This action cannot be
+              undone.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-end gap-2 pt-4">
+            <Button variant="outline" onClick={() => setOpenEmptyDialog(false)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleEmpty}>
+              Delete permanently
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <div className="sticky top-0 z-40 border-b border-border/40 bg-background/95 backdrop-blur supports-backdrop-filter:bg-background/60">
+        <div className="mx-auto max-w-4xl px-4 py-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <a href="/">
+                <Button variant="ghost" size="sm" className="gap-2">
+                  <ArrowLeft className="h-4 w-4" /> Home
+                </Button>
+              </a>
+              <h1 className="text-3xl sm:text-4xl font-bold text-foreground flex items-center gap-2">
+                <Trash2 className="h-6 w-6" /> Trash
+              </h1>
+            </div>
+            <Button
+              variant="destructive"
+              size="sm"
+              disabled={trash.length === 0}
+              onClick={() => setOpenEmptyDialog(true)}
+            >
+              Empty Trash
+            </Button>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {trashRetentionDays === null
+              ? "Items stay here until you delete them"
+              : `Items are deleted permanently after ${trashRetentionDays} days`}
+          </p>
+        </div>
+      </div>
+
+      <div className="mx-auto max-w-4xl px-4 py-8 space-y-4">
+        {config && lockedTrashCount > 0 && (
+          <VaultTrashUnlock count={lockedTrashCount} />
+        )}
+
+        {trash.length === 0 ? (
+          <Empty>
+            <EmptyHeader>
+              <EmptyMedia variant="icon">
+                <Trash2 className="h-12 w-12 text-muted-foreground" />
+              </EmptyMedia>
+              <EmptyTitle>Trash is empty</EmptyTitle>
+              <EmptyDescription>
+                Deleted media shows up here until it is purged
+              </EmptyDescription>
+            </EmptyHeader>
+          </Empty>
+        ) : (
+          <ul className="divide-y divide-border/40 rounded-lg border border-border/40">
+            {trash.map((entry) => {
+              const left = daysLeft(entry, trashRetentionDays);
+              return (
+                <li key={entry.item.id} className="flex items-center gap-4 p-3">
+                  {entry.item.type === "image" ? (
+                    <img
+                      src={entry.item.thumbnail || entry.item.url}
+                      alt=""
+                      className={`h-12 w-12 rounded object-cover ${
+                        entry.fromVault ? "blur-sm" : ""
+                      }`}
+                    />
+                  ) : (
+                    <div className="h-12 w-12 rounded bg-muted" />
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate font-medium text-foreground">
+                      {entry.item.name}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Deleted {new Date(entry.deletedAt).toLocaleDateString()}
+                      {left !== null && ` · ${left} day(s) left`}
+                    </p>
+                  </div>
+                  {entry.fromVault && (
+                    <Badge variant="secondary" className="gap-1">
+                      <Lock className="h-3 w-3" /> Hidden
+                    </Badge>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2 bg-transparent"
+                    onClick={() => handleRestore(entry)}
+                  >
+                    <RotateCcw className="h-4 w-4" /> Restore
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive"
+                    title="Delete permanently"
+                    onClick={() => handlePurge(entry)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}